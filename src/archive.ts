@@ -0,0 +1,843 @@
+import { createWriteStream, existsSync } from 'fs';
+import { finished } from 'stream/promises';
+import path from 'path';
+import { ArchiveOptions, ResolvedArchiveOptions, resolveArchiveOptions, stdoutOutput } from './options.js';
+import { ArchiveFile, SkippedFile, collectFiles, getSecretFindings, truncationMarkerRegex } from './files.js';
+import { SecretFinding } from './secrets.js';
+import { UnresolvedImport } from './imports.js';
+import { getLanguageFromExtension, isMarkdownExtension } from './languages.js';
+import { renderFileTree } from './tree.js';
+import { OutputExistsError } from './errors.js';
+import { estimateTokens, formatTokens, getMaxTokenLength } from './tokens.js';
+import { ArchiveFormatter, FilePartKind, OutputFormat, getFormatter } from './formats.js';
+import { TemplateVariables, renderChunkInstructions } from './templates.js';
+import { ConverterName } from './converters.js';
+import {
+  Snapshot,
+  SnapshotChanges,
+  createSnapshot,
+  diffSnapshot,
+  getContentHashes,
+  getManifestPath,
+  writeSnapshot,
+} from './snapshot.js';
+
+// Manifest entry describing where a file ended up in the archive
+export interface ManifestEntry {
+  // Path relative to the source folder
+  path: string;
+  // Size of the file content in bytes
+  size: number;
+  // Number of lines of the file content
+  lines: number;
+  // Estimated tokens of the file content
+  tokens: number;
+  // Indexes of the chunks that contain the file
+  chunks: number[];
+  // Whether the file was truncated to fit the maximum file size
+  truncated?: boolean;
+  // Whether the file was replaced with an outline of its declarations
+  outlined?: boolean;
+  // Converter that turned the file into compact text
+  converted?: ConverterName;
+}
+
+// Result of rendering an archive
+export interface ArchiveResult {
+  // Content of each output chunk (a single entry when chunking is disabled)
+  chunks: string[];
+  // Size in bytes and estimated tokens of each output chunk
+  chunkSizes: number[];
+  chunkTokens: number[];
+  // Files included in the archive
+  manifest: ManifestEntry[];
+  // Files dropped to stay within the token budget
+  dropped: string[];
+  // Files left out because they are binary, generated or too large
+  skipped: SkippedFile[];
+  // Secrets that were redacted or caused files to be skipped
+  secrets: SecretFinding[];
+  // External packages and unresolved imports of the entry files
+  unresolvedImports: UnresolvedImport[];
+  // Files added, modified, deleted and renamed since the earlier manifest, for a delta archive
+  changes?: SnapshotChanges;
+  // Manifest written next to the output, when requested
+  snapshot?: Snapshot;
+}
+
+// Function to get the output file path based on index
+export function getOutputFilePath(outputFile: string, index: number): string {
+  const ext = path.extname(outputFile);
+  const baseName = path.basename(outputFile, ext);
+  const dirName = path.dirname(outputFile);
+  const indexStr = index.toString().padStart(2, '0');
+  return path.join(dirName, `${baseName}.${indexStr}${ext}`);
+}
+
+// Function to get the paths the chunks of an archive are written to
+export function getOutputFilePaths(outputFile: string, chunkCount: number): string[] {
+  const resolvedOutputFile = path.resolve(outputFile);
+  if (chunkCount <= 1) {
+    return [resolvedOutputFile];
+  }
+  return Array.from({ length: chunkCount }, (_, i) => getOutputFilePath(resolvedOutputFile, i + 1));
+}
+
+// A file, or its diff, prepared for splitting into parts
+interface SplitFile {
+  file: ArchiveFile;
+  // 1-based position of the file in the archive
+  index: number;
+  kind: FilePartKind;
+  // Text being split: the file content or its diff
+  content: string;
+  lines: string[];
+  // Lines prefixed with their line numbers, rendered in place of the lines when line numbers are requested
+  numberedLines?: string[];
+  // Offset of each rendered line and of the end, computed when the file is split: in bytes when chunks are measured in
+  // bytes, and in characters when they are measured in tokens
+  lineOffsets?: number[];
+  // Estimated tokens per character of the rendered lines, computed when the file is split by tokens
+  tokensPerChar?: number;
+  // Opening line of the fenced code block each line boundary falls inside (null outside code blocks), computed when a
+  // Markdown file is split
+  boundaryFences?: (string | null)[];
+}
+
+// Function to split text into lines, keeping the newline at the end of each line
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+// Function to prefix lines with their line numbers, in a gutter as wide as the largest number so it stays aligned
+// across the parts of a split file. The truncation marker of a truncated file gets an empty gutter, and the
+// numbers after it skip the omitted lines.
+function numberLines(lines: string[], truncated: boolean): string[] {
+  let lineNumber = 0;
+  const numbers = lines.map(line => {
+    const markerMatch = truncated ? line.trimEnd().match(truncationMarkerRegex) : null;
+    if (markerMatch) {
+      lineNumber += Number(markerMatch[1]);
+      return null;
+    }
+    return ++lineNumber;
+  });
+
+  const width = String(lineNumber).length;
+  return lines.map((line, i) => {
+    const gutter = numbers[i] === null ? ' '.repeat(width) : String(numbers[i]).padStart(width);
+    // Empty lines don't get trailing whitespace
+    return gutter + ' |' + (line === '\n' ? '' : ' ') + line;
+  });
+}
+
+// Function to prepare a file, followed by its diff if it has one, for splitting into parts. Line numbers are added
+// to the content, unless it is an outline, a converted file or a Markdown file that the Markdown format includes as
+// it is.
+function toSplitFiles(file: ArchiveFile, index: number, format: OutputFormat, lineNumbers: boolean): SplitFile[] {
+  const kind = file.outlined ? 'outline' : file.converted ? 'converted' : 'file';
+  const lines = splitLines(file.content);
+  const isIncludedAsIs = format === 'markdown' && isMarkdownExtension(path.extname(file.relativePath));
+  const numberedLines = lineNumbers && kind === 'file' && !isIncludedAsIs
+    ? numberLines(lines, file.truncated ?? false)
+    : undefined;
+  const splitFiles: SplitFile[] = [
+    { file, index, kind, content: file.content, lines, ...(numberedLines ? { numberedLines } : {}) },
+  ];
+  if (file.diff) {
+    splitFiles.push({ file, index, kind: 'diff', content: file.diff, lines: splitLines(file.diff) });
+  }
+  return splitFiles;
+}
+
+// Function to render the lines [start, end) of a file with the given formatter
+function renderFilePart(
+  formatter: ArchiveFormatter,
+  splitFile: SplitFile,
+  start: number,
+  end: number,
+  isFirstInChunk: boolean
+): string {
+  const { file, index, kind, content, lines, numberedLines } = splitFile;
+  const ext = path.extname(file.relativePath).toLowerCase();
+  const isFirstPart = start === 0;
+
+  // A Markdown file split inside a code block has the block closed at the end of the part and reopened in the next one
+  const isSplitMarkdown = kind === 'file' && isMarkdownExtension(ext) && (start > 0 || end < lines.length);
+  const fences = isSplitMarkdown ? getBoundaryFences(splitFile) : [];
+  const reopenedFence = fences[start];
+  const closedFence = end < lines.length ? fences[end]?.trim().match(/^(`+|~+)/)?.[1] : undefined;
+
+  return formatter.renderFilePart(
+    {
+      kind,
+      path: file.relativePath,
+      index,
+      language: kind === 'diff' ? 'diff' : file.language ?? getLanguageFromExtension(ext),
+      size: Buffer.byteLength(content, 'utf8'),
+      content: (numberedLines ?? lines).slice(start, end).join(''),
+      startLine: start + 1,
+      endLine: end,
+      isFirstPart,
+      isLastPart: end >= lines.length,
+      numbered: numberedLines !== undefined,
+      ...(file.meta && isFirstPart && kind !== 'diff' ? { meta: file.meta } : {}),
+      ...(reopenedFence ? { reopenedFence } : {}),
+      ...(closedFence ? { closedFence } : {}),
+    },
+    isFirstInChunk
+  );
+}
+
+// Function to render the section of the archive for a single file, including its diff if it has one
+export function renderFileSection(
+  file: ArchiveFile,
+  format: OutputFormat = 'markdown',
+  index: number = 1,
+  lineNumbers: boolean = false
+): string {
+  const formatter = getFormatter(format);
+  return toSplitFiles(file, index, format, lineNumbers)
+    .map((splitFile, i) => renderFilePart(formatter, splitFile, 0, splitFile.lines.length, i === 0))
+    .join('');
+}
+
+// Function to render the file structure section for the given files
+function renderTreeSection(formatter: ArchiveFormatter, files: ArchiveFile[], isFirstInChunk: boolean): string {
+  // The tree follows the order of the files, so it lists the most important files first
+  const treeString = renderFileTree(files.map(file => file.relativePath), true);
+  return formatter.renderTree(treeString, isFirstInChunk);
+}
+
+// Function to render the sections before the files: the import list, the deleted and renamed files of a delta
+// archive and the file structure, when enabled
+function renderPrefixSections(
+  formatter: ArchiveFormatter,
+  files: ArchiveFile[],
+  options: ResolvedArchiveOptions,
+  unresolvedImports: UnresolvedImport[],
+  changes: SnapshotChanges | null,
+  isFirstInChunk: boolean = true
+): string {
+  let prefix = '';
+  if (options.listImports && unresolvedImports.length > 0) {
+    prefix += formatter.renderImports(unresolvedImports, isFirstInChunk);
+  }
+  if (changes) {
+    prefix += formatter.renderChanges(changes, isFirstInChunk && prefix === '');
+  }
+  if (options.prefixTree) {
+    prefix += renderTreeSection(formatter, files, isFirstInChunk && prefix === '');
+  }
+  return prefix;
+}
+
+// Function to get the template variables that are the same in every chunk of the archive
+function getTemplateVariables(files: ArchiveFile[], options: ResolvedArchiveOptions): TemplateVariables {
+  return {
+    fileCount: files.length,
+    totalSize: files.reduce((sum, file) => sum + Buffer.byteLength(file.content, 'utf8'), 0),
+    part: 1,
+    partCount: 1,
+    tree: renderFileTree(files.map(file => file.relativePath), true),
+    projectName: options.projectName,
+  };
+}
+
+// Function to render the instructions of a chunk from the templates and part preambles
+function renderInstructionSections(
+  formatter: ArchiveFormatter,
+  options: ResolvedArchiveOptions,
+  variables: TemplateVariables,
+  isMultiPart: boolean
+): string {
+  const { top, bottom } = renderChunkInstructions(
+    { header: options.headerTemplate, footer: options.footerTemplate },
+    variables,
+    isMultiPart
+  );
+  return (top ? formatter.renderInstructions(top, true) : '') + (bottom ? formatter.renderInstructions(bottom, false) : '');
+}
+
+// Function to measure the largest instructions of a chunk in an archive with up to the given number of parts,
+// assuming part numbers as wide as the part count
+function measureInstructions(
+  formatter: ArchiveFormatter,
+  options: ResolvedArchiveOptions,
+  variables: TemplateVariables,
+  isMultiPart: boolean,
+  partCount: number,
+  measure: (text: string) => number
+): number {
+  const variants = isMultiPart ? [partCount - 1, partCount] : [1];
+  return Math.max(...variants.map(part => measure(
+    renderInstructionSections(formatter, options, { ...variables, part, partCount: isMultiPart ? partCount : 1 }, isMultiPart)
+  )));
+}
+
+// Function to drop the files that don't fit the token budget, keeping the files in order while they fit
+function applyTokenBudget(
+  files: ArchiveFile[],
+  options: ResolvedArchiveOptions,
+  unresolvedImports: UnresolvedImport[],
+  changes: SnapshotChanges | null
+): { files: ArchiveFile[]; dropped: string[] } {
+  const { maxTokens, encoding, overBudget, format, lineNumbers } = options;
+  if (maxTokens <= 0) {
+    return { files, dropped: [] };
+  }
+
+  const formatter = getFormatter(format);
+  const sectionTokens = files.map(
+    (file, i) => estimateTokens(renderFileSection(file, format, i + 1, lineNumbers), encoding)
+  );
+  // The instructions of a single chunk are counted along with the sections before the files
+  const prefixTokens = (included: ArchiveFile[]) => estimateTokens(
+    renderPrefixSections(formatter, included, options, unresolvedImports, changes)
+      + renderInstructionSections(formatter, options, getTemplateVariables(included, options), false),
+    encoding
+  );
+
+  const wrapperTokens = estimateTokens(formatter.chunkHeader + formatter.chunkFooter, encoding);
+  const allPrefixTokens = prefixTokens(files);
+  const totalTokens = wrapperTokens + allPrefixTokens + sectionTokens.reduce((sum, tokens) => sum + tokens, 0);
+
+  if (totalTokens <= maxTokens) {
+    return { files, dropped: [] };
+  }
+  if (overBudget === 'fail') {
+    throw new Error(
+      `Archive exceeds the token budget: ~${formatTokens(totalTokens)} tokens (max ${formatTokens(maxTokens)})`
+    );
+  }
+
+  // Files are added in order while they fit, so a file that is too large is dropped without dropping the smaller
+  // files after it. The sections before the files only shrink with fewer files, so those of all the files are an
+  // upper bound that saves rendering them again for most files.
+  const included: ArchiveFile[] = [];
+  const dropped: string[] = [];
+  let contentTokens = wrapperTokens;
+  files.forEach((file, i) => {
+    const tokens = contentTokens + sectionTokens[i];
+    const fits = tokens + allPrefixTokens <= maxTokens
+      || (tokens <= maxTokens && tokens + prefixTokens([...included, file]) <= maxTokens);
+    if (fits) {
+      included.push(file);
+      contentTokens = tokens;
+    } else {
+      dropped.push(file.relativePath);
+    }
+  });
+
+  if (included.length === 0) {
+    throw new Error(`No file fits the token budget of ~${formatTokens(maxTokens)} tokens`);
+  }
+  return { files: included, dropped };
+}
+
+// Function to get the offsets of the rendered lines of a file, computing them the first time
+function getLineOffsets(splitFile: SplitFile, isMeasuredInBytes: boolean): number[] {
+  if (!splitFile.lineOffsets) {
+    const offsets = [0];
+    for (const line of splitFile.numberedLines ?? splitFile.lines) {
+      offsets.push(offsets[offsets.length - 1] + (isMeasuredInBytes ? Buffer.byteLength(line, 'utf8') : line.length));
+    }
+    splitFile.lineOffsets = offsets;
+  }
+  return splitFile.lineOffsets;
+}
+
+// Function to estimate how many lines from start fit in the given space, from the sizes of the lines
+function estimateLineCount(
+  splitFile: SplitFile,
+  start: number,
+  space: number,
+  measure: (text: string) => number,
+  isMeasuredInBytes: boolean
+): number {
+  const offsets = getLineOffsets(splitFile, isMeasuredInBytes);
+  if (!isMeasuredInBytes && splitFile.tokensPerChar === undefined) {
+    const totalChars = offsets[offsets.length - 1];
+    splitFile.tokensPerChar = totalChars > 0 ? measure((splitFile.numberedLines ?? splitFile.lines).join('')) / totalChars : 1;
+  }
+  const spaceSize = isMeasuredInBytes ? space : space / Math.max(splitFile.tokensPerChar!, Number.EPSILON);
+
+  // Binary search over the offsets, which doesn't render anything
+  let low = start;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsets[mid] - offsets[start] <= spaceSize) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low - start;
+}
+
+// Function to find the largest number of lines from start that fit in the given space as a non-final part. The search
+// starts from an estimate based on the sizes of the lines and gallops from there, so only a few parts are rendered.
+function fitLineCount(
+  formatter: ArchiveFormatter,
+  splitFile: SplitFile,
+  start: number,
+  isFirstInChunk: boolean,
+  space: number,
+  measure: (text: string) => number,
+  isMeasuredInBytes: boolean
+): number {
+  const maxCount = splitFile.lines.length - start - 1;
+  const fits = (count: number) =>
+    measure(renderFilePart(formatter, splitFile, start, start + count, isFirstInChunk)) <= space;
+
+  // The largest count known to fit (or 0) and the smallest count known not to fit
+  let low = 0;
+  let high = maxCount + 1;
+  const guess = Math.min(Math.max(estimateLineCount(splitFile, start, space, measure, isMeasuredInBytes), 0), maxCount);
+  let step = 1;
+  if (fits(guess)) {
+    low = guess;
+    while (low + step < high && fits(low + step)) {
+      low += step;
+      step *= 2;
+    }
+    high = Math.min(high, low + step);
+  } else {
+    high = guess;
+    while (high - step > 0 && !fits(high - step)) {
+      high -= step;
+      step *= 2;
+    }
+    low = Math.max(0, high - step);
+  }
+
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (fits(mid)) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+// Function to find the fenced code block of a Markdown file each line boundary falls inside, by its opening line
+function findBoundaryFences(lines: string[]): (string | null)[] {
+  const fences: (string | null)[] = [null];
+  let fence = '';
+  let openingLine: string | null = null;
+
+  for (const line of lines) {
+    const fenceMatch = line.match(/^ {0,3}(`{3,}|~{3,})/);
+    if (fenceMatch && !fence) {
+      fence = fenceMatch[1];
+      openingLine = line.trimEnd();
+    } else if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+      fence = '';
+      openingLine = null;
+    }
+    fences.push(openingLine);
+  }
+  return fences;
+}
+
+// Function to get the code blocks the line boundaries of a Markdown file fall inside, finding them once however many
+// parts the file is split into
+function getBoundaryFences(splitFile: SplitFile): (string | null)[] {
+  if (!splitFile.boundaryFences) {
+    splitFile.boundaryFences = findBoundaryFences(splitFile.lines);
+  }
+  return splitFile.boundaryFences;
+}
+
+// Function to move a split point back to a blank line or top-level declaration, if one is close enough
+function findPreferredBreak(splitFile: SplitFile, start: number, end: number, isMarkdown: boolean): number {
+  const { lines } = splitFile;
+  const minEnd = start + Math.ceil((end - start) / 2);
+  const fenced = isMarkdown ? getBoundaryFences(splitFile) : [];
+  let fallback = end;
+
+  for (let i = end; i > start; i--) {
+    // Never split a code block embedded in a Markdown file if it can be avoided
+    if (isMarkdown && fenced[i]) {
+      continue;
+    }
+    if (fallback === end && isMarkdown && fenced[end]) {
+      fallback = i;
+    }
+
+    const previousLine = lines[i - 1];
+    const nextLine = lines[i];
+    const isDeclaration = isMarkdown ? /^#/.test(nextLine) : /^[^\s})\]]/.test(nextLine);
+    if (i >= minEnd && (previousLine.trim() === '' || isDeclaration)) {
+      return i;
+    }
+  }
+  return fallback;
+}
+
+// A section of an output chunk: text rendered up front, such as the file structure, or the lines [start, end) of a file
+type ChunkSection =
+  | { text: string }
+  | { splitFile: SplitFile; start: number; end: number; isFirstInChunk: boolean };
+
+// Files of an archive laid out in chunks, which are only rendered when they are written
+interface ArchiveLayout {
+  options: ResolvedArchiveOptions;
+  formatter: ArchiveFormatter;
+  // Included files, after leaving out unchanged files and dropping those over the token budget
+  files: ArchiveFile[];
+  // Sections of each chunk
+  chunks: ChunkSection[][];
+  manifest: ManifestEntry[];
+  dropped: string[];
+  variables: TemplateVariables;
+  // Whether the chunks get part preambles
+  isMultiPart: boolean;
+  changes: SnapshotChanges | null;
+  snapshot: Snapshot | null;
+}
+
+// Function to lay out collected files in chunks, without keeping the rendered chunks in memory
+function layoutArchive(
+  allFiles: ArchiveFile[],
+  resolvedOptions: ResolvedArchiveOptions,
+  unresolvedImports: UnresolvedImport[]
+): ArchiveLayout {
+  const { encoding, chunkTokens } = resolvedOptions;
+  // A delta archive only holds the files added or modified since the earlier manifest
+  const { sinceManifest } = resolvedOptions;
+  const hashes = sinceManifest || resolvedOptions.manifest ? getContentHashes(allFiles) : new Map<string, string>();
+  const delta = sinceManifest ? diffSnapshot(allFiles, sinceManifest, hashes) : null;
+  const changes = delta?.changes ?? null;
+  const { files, dropped } = applyTokenBudget(delta?.files ?? allFiles, resolvedOptions, unresolvedImports, changes);
+  const formatter = getFormatter(resolvedOptions.format);
+
+  // Chunks are measured in estimated tokens when chunkTokens is set, otherwise in bytes
+  const measureBytes = (text: string) => Buffer.byteLength(text, 'utf8');
+  const measureTokens = (text: string) => estimateTokens(text, encoding);
+  const isMeasuredInBytes = chunkTokens <= 0;
+  const measure = isMeasuredInBytes ? measureBytes : measureTokens;
+
+  // Every chunk is wrapped in the format's chunk header and footer, so leave room for them
+  const chunkLimit = chunkTokens > 0 ? chunkTokens : resolvedOptions.chunkSize;
+  const maxChunkSize = chunkLimit > 0
+    ? Math.max(1, chunkLimit - measure(formatter.chunkHeader + formatter.chunkFooter))
+    : 0;
+
+  const variables = getTemplateVariables(files, resolvedOptions);
+
+  // The files, and their diffs, prepared for splitting; the manifest entries don't depend on the layout
+  const splitFiles = files.map((file, fileIndex) =>
+    toSplitFiles(file, fileIndex + 1, resolvedOptions.format, resolvedOptions.lineNumbers)
+  );
+
+  // Function to lay out the files in chunks, leaving room for the instructions of each chunk
+  const layoutChunks = (hasTopInstructions: boolean, instructionsSize: number) => {
+    const availableSize = maxChunkSize > 0 ? maxChunkSize - instructionsSize : 0;
+    if (maxChunkSize > 0 && availableSize <= 0) {
+      throw new Error('The header and footer templates and part preambles do not fit in the chunk size');
+    }
+
+    // Prepare to collect the sections
+    const chunks: ChunkSection[][] = [[]];
+    let currentChunkSize = 0;
+    let currentFileIndex = 0;
+    const manifest: ManifestEntry[] = [];
+
+    // Generate the import list and the tree structure if they are enabled
+    const prefixSections = renderPrefixSections(
+      formatter, files, resolvedOptions, unresolvedImports, changes, !hasTopInstructions
+    );
+    if (prefixSections) {
+      const prefixSize = measure(prefixSections);
+
+      if (availableSize > 0 && currentChunkSize + prefixSize > availableSize) {
+        // Sections don't fit in current chunk, so they get a chunk of their own
+        chunks.unshift([{ text: prefixSections }]);
+        currentFileIndex++;
+      } else {
+        // Add sections to the current chunk
+        chunks[0].push({ text: prefixSections });
+        currentChunkSize += prefixSize;
+      }
+    }
+
+    // Function to start a new, empty chunk
+    const startNewChunk = () => {
+      currentFileIndex++;
+      chunks.push([]);
+      currentChunkSize = 0;
+    };
+
+    for (let fileIndex = 0; fileIndex < files.length; fileIndex++) {
+      const file = files[fileIndex];
+      const entry: ManifestEntry = {
+        path: file.relativePath,
+        size: measureBytes(file.content),
+        lines: splitLines(file.content).length,
+        tokens: measureTokens(file.content),
+        chunks: [],
+        ...(file.truncated ? { truncated: true } : {}),
+        ...(file.outlined ? { outlined: true } : {}),
+        ...(file.converted ? { converted: file.converted } : {}),
+      };
+      manifest.push(entry);
+
+      // The diff of a file follows its content and is split the same way
+      for (const splitFile of splitFiles[fileIndex]) {
+        const { lines } = splitFile;
+        let start = 0;
+
+        while (true) {
+          // Instructions at the start of a chunk come before its first section
+          const isFirstInChunk = chunks[currentFileIndex].length === 0 && !hasTopInstructions;
+          let end = lines.length;
+          let part: string | null = null;
+
+          if (availableSize > 0) {
+            const remainingChunkSpace = availableSize - currentChunkSize;
+
+            // A part is never smaller than its lines, so the rest of a large file isn't rendered if it can't fit
+            const offsets = getLineOffsets(splitFile, isMeasuredInBytes);
+            const minRestSize = isMeasuredInBytes
+              ? offsets[end] - offsets[start]
+              : (offsets[end] - offsets[start]) / getMaxTokenLength(encoding);
+            const restFits = minRestSize <= remainingChunkSpace
+              && measure(part = renderFilePart(formatter, splitFile, start, end, isFirstInChunk)) <= remainingChunkSpace;
+
+            // Split the rest of the file at a line boundary if it doesn't fit in the current chunk
+            if (!restFits) {
+              part = null;
+              end = start + fitLineCount(
+                formatter, splitFile, start, isFirstInChunk, remainingChunkSpace, measure, isMeasuredInBytes
+              );
+
+              if (end === start) {
+                if (currentChunkSize > 0) {
+                  // Not even one line fits in this chunk, so start a new one
+                  startNewChunk();
+                  continue;
+                }
+                // A single line longer than the chunk size is never split, so it gets a chunk of its own
+                end = Math.min(start + 1, lines.length);
+              } else {
+                const isMarkdown = splitFile.kind === 'file' && isMarkdownExtension(path.extname(file.relativePath));
+                end = findPreferredBreak(splitFile, start, end, isMarkdown);
+              }
+            }
+          }
+
+          // Add the part to the current chunk
+          if (availableSize > 0) {
+            currentChunkSize += measure(part ?? renderFilePart(formatter, splitFile, start, end, isFirstInChunk));
+          }
+          chunks[currentFileIndex].push({ splitFile, start, end, isFirstInChunk });
+          if (!entry.chunks.includes(currentFileIndex)) {
+            entry.chunks.push(currentFileIndex);
+          }
+          start = end;
+
+          // If the file continues or we've reached the max chunk size, start a new chunk
+          if (availableSize > 0 && (start < lines.length || currentChunkSize >= availableSize)) {
+            startNewChunk();
+          }
+          if (start >= lines.length) {
+            break;
+          }
+        }
+      }
+    }
+
+    return { chunks, manifest };
+  };
+
+  // Part preambles are only added when the archive is split. The room they take depends on the number of parts,
+  // so the files are laid out again if the number of parts turns out to need more digits than assumed.
+  let isMultiPart = resolvedOptions.partPreambles && chunkLimit > 0;
+  let assumedPartCount = 9;
+  let layout: ReturnType<typeof layoutChunks>;
+  while (true) {
+    const hasTopInstructions = isMultiPart || resolvedOptions.headerTemplate.trim() !== '';
+    const instructionsSize = maxChunkSize > 0
+      ? measureInstructions(formatter, resolvedOptions, variables, isMultiPart, assumedPartCount, measure)
+      : 0;
+    layout = layoutChunks(hasTopInstructions, instructionsSize);
+
+    const partCount = layout.chunks.length;
+    if (isMultiPart && partCount === 1) {
+      isMultiPart = false;
+    } else if (isMultiPart && String(partCount).length > String(assumedPartCount).length) {
+      assumedPartCount = Number('9'.repeat(String(partCount).length));
+    } else {
+      break;
+    }
+  }
+
+  return {
+    options: resolvedOptions,
+    formatter,
+    files,
+    chunks: layout.chunks,
+    manifest: layout.manifest,
+    dropped,
+    variables,
+    isMultiPart,
+    changes,
+    snapshot: resolvedOptions.manifest
+      ? createSnapshot(allFiles, layout.manifest, hashes, sinceManifest, changes)
+      : null,
+  };
+}
+
+// Function to render one chunk of a laid out archive, with its instructions and the format's chunk header and footer
+function renderChunk(layout: ArchiveLayout, index: number): string {
+  const { options, formatter, chunks } = layout;
+  const { top, bottom } = renderChunkInstructions(
+    { header: options.headerTemplate, footer: options.footerTemplate },
+    { ...layout.variables, part: index + 1, partCount: chunks.length },
+    layout.isMultiPart
+  );
+
+  const content = chunks[index]
+    .map(section => ('text' in section
+      ? section.text
+      : renderFilePart(formatter, section.splitFile, section.start, section.end, section.isFirstInChunk)))
+    .join('');
+  return formatter.chunkHeader
+    + (top ? formatter.renderInstructions(top, true) : '')
+    + content
+    + (bottom ? formatter.renderInstructions(bottom, !top && content === '') : '')
+    + formatter.chunkFooter;
+}
+
+// Function to render collected files into Markdown archive chunks, listing the given unresolved imports when enabled
+export function renderArchive(
+  allFiles: ArchiveFile[],
+  options: ArchiveOptions = {},
+  unresolvedImports: UnresolvedImport[] = []
+): ArchiveResult {
+  const resolvedOptions = resolveArchiveOptions(options);
+  const layout = layoutArchive(allFiles, resolvedOptions, unresolvedImports);
+  const chunks = layout.chunks.map((_, i) => renderChunk(layout, i));
+
+  return {
+    chunks,
+    chunkSizes: chunks.map(chunk => Buffer.byteLength(chunk, 'utf8')),
+    chunkTokens: chunks.map(chunk => estimateTokens(chunk, resolvedOptions.encoding)),
+    manifest: layout.manifest,
+    dropped: layout.dropped,
+    skipped: [],
+    secrets: getSecretFindings(layout.files, []),
+    unresolvedImports,
+    ...(layout.changes ? { changes: layout.changes } : {}),
+    ...(layout.snapshot ? { snapshot: layout.snapshot } : {}),
+  };
+}
+
+// Function to collect the files from the source folder and render them into an archive
+export async function createArchive(options: ArchiveOptions = {}): Promise<ArchiveResult> {
+  const skipped: SkippedFile[] = [];
+  const unresolvedImports: UnresolvedImport[] = [];
+  const files = await collectFiles(options, skipped, unresolvedImports);
+  return { ...renderArchive(files, options, unresolvedImports), skipped, secrets: getSecretFindings(files, skipped) };
+}
+
+// Function to write text to stdout, waiting until it has been flushed
+function writeStdout(text: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    process.stdout.write(text, error => (error ? reject(error) : resolve()));
+  });
+}
+
+// Function to write a chunk to its output file through a write stream, or to stdout ('-')
+async function writeChunk(outputFilePath: string, chunk: string): Promise<void> {
+  if (outputFilePath === stdoutOutput) {
+    await writeStdout(chunk);
+    return;
+  }
+  const stream = createWriteStream(outputFilePath, 'utf8');
+  stream.end(chunk);
+  await finished(stream);
+}
+
+// Function to get the paths a number of chunks are written to, checking that they and the manifest can be written
+function prepareOutputFilePaths(chunkCount: number, options: ResolvedArchiveOptions): string[] {
+  const { output, overwrite, manifest } = options;
+  if (output === stdoutOutput) {
+    if (chunkCount > 1) {
+      throw new Error('Chunked archives cannot be written to stdout');
+    }
+    return [stdoutOutput];
+  }
+  const outputFilePaths = getOutputFilePaths(output, chunkCount);
+
+  // Check for existing files before writing anything
+  if (!overwrite) {
+    const existing = [...outputFilePaths, ...(manifest ? [getManifestPath(output)] : [])]
+      .filter(outputFilePath => existsSync(outputFilePath));
+    if (existing.length > 0) {
+      throw new OutputExistsError(existing);
+    }
+  }
+  return outputFilePaths;
+}
+
+// Function to write the chunks of an archive to the output file(s) and return their paths ('-' for stdout). The
+// manifest of the archive, if it has one, is written next to them.
+export async function writeArchive(result: ArchiveResult, options: ArchiveOptions = {}): Promise<string[]> {
+  const resolvedOptions = resolveArchiveOptions(options);
+  const outputFilePaths = prepareOutputFilePaths(result.chunks.length, resolvedOptions);
+  for (let i = 0; i < outputFilePaths.length; i++) {
+    await writeChunk(outputFilePaths[i], result.chunks[i]);
+  }
+  if (result.snapshot && resolvedOptions.output !== stdoutOutput) {
+    await writeSnapshot(getManifestPath(resolvedOptions.output), result.snapshot);
+  }
+  return outputFilePaths;
+}
+
+// Result of an archive written chunk by chunk, which doesn't keep the chunks
+export type StreamedArchiveResult = Omit<ArchiveResult, 'chunks'>;
+
+// Function to collect the files from the source folder and write the archive one chunk at a time, so only the chunk
+// being written is held in memory. The output is the same as that of createArchive and writeArchive.
+export async function streamArchive(
+  options: ArchiveOptions = {}
+): Promise<{ result: StreamedArchiveResult; outputFilePaths: string[] }> {
+  const resolvedOptions = resolveArchiveOptions(options);
+  const skipped: SkippedFile[] = [];
+  const unresolvedImports: UnresolvedImport[] = [];
+  const files = await collectFiles(options, skipped, unresolvedImports);
+  const layout = layoutArchive(files, resolvedOptions, unresolvedImports);
+  const outputFilePaths = prepareOutputFilePaths(layout.chunks.length, resolvedOptions);
+
+  const chunkSizes: number[] = [];
+  const chunkTokens: number[] = [];
+  for (let i = 0; i < outputFilePaths.length; i++) {
+    const chunk = renderChunk(layout, i);
+    chunkSizes.push(Buffer.byteLength(chunk, 'utf8'));
+    chunkTokens.push(estimateTokens(chunk, resolvedOptions.encoding));
+    await writeChunk(outputFilePaths[i], chunk);
+  }
+  if (layout.snapshot && resolvedOptions.output !== stdoutOutput) {
+    await writeSnapshot(getManifestPath(resolvedOptions.output), layout.snapshot);
+  }
+
+  return {
+    result: {
+      chunkSizes,
+      chunkTokens,
+      manifest: layout.manifest,
+      dropped: layout.dropped,
+      skipped,
+      secrets: getSecretFindings(layout.files, skipped),
+      unresolvedImports,
+      ...(layout.changes ? { changes: layout.changes } : {}),
+      ...(layout.snapshot ? { snapshot: layout.snapshot } : {}),
+    },
+    outputFilePaths,
+  };
+}
@@ -0,0 +1,965 @@
+#!/usr/bin/env node
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import yargs, { Options } from 'yargs';
+import { hideBin } from 'yargs/helpers';
+import https from 'https';
+import { fileURLToPath } from 'url';
+import { ArchiveOptions, OverBudgetPolicy, parseSize, resolveArchiveOptions, stdoutOutput } from './options.js';
+import { StreamedArchiveResult, createArchive, getOutputFilePaths, streamArchive } from './archive.js';
+import { ArchiveStats, getArchiveStats } from './stats.js';
+import { extractArchive } from './extract.js';
+import { watchArchive } from './watch.js';
+import { LoadedConfig, configFileName, configSchema, loadConfig } from './config.js';
+import { SourceRootOption, parseSourceRoot } from './roots.js';
+import { FileOrder, defaultPriority, fileOrders } from './order.js';
+import { OutputExistsError, SecretsFoundError } from './errors.js';
+import { defaultConcurrency } from './concurrency.js';
+import { Snapshot, getManifestPath, readSnapshot } from './snapshot.js';
+import { ConverterName, NotebookOutputs } from './converters.js';
+import { SecretFinding, SecretRule, SecretsMode, secretsModes } from './secrets.js';
+import { TokenEncoding, formatTokens, tokenEncodings } from './tokens.js';
+import { OutputFormat, outputFormats } from './formats.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Function to get the message of a thrown value, which isn't always an Error
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Formats of the archive statistics report
+type ReportFormat = 'text' | 'json';
+
+// Define command-line argument types
+interface Args {
+  source?: string[];
+  workspaces: boolean;
+  output: string;
+  overwrite: boolean;
+  'source-only': boolean;
+  'strip-empty-lines': boolean;
+  'strip-comments': boolean;
+  'compact-indent': boolean;
+  convert: boolean;
+  outline?: string;
+  'check-update': boolean;
+  order: FileOrder;
+  include: string[];
+  exclude: string[];
+  'chunk-size': string;
+  'prefix-tree': boolean;
+  'line-numbers': boolean;
+  'file-meta': boolean;
+  header: string;
+  footer: string;
+  'part-preambles': boolean;
+  'project-name': string;
+  manifest: boolean;
+  'since-manifest': string;
+  'chunk-tokens': number;
+  'max-tokens': number;
+  encoding: TokenEncoding;
+  'over-budget': OverBudgetPolicy;
+  format: OutputFormat;
+  'default-ignores': boolean;
+  'changed-since': string;
+  staged: boolean;
+  'tracked-only': boolean;
+  'with-diff': boolean;
+  'files-from': string;
+  entry: string[];
+  depth?: number;
+  'list-imports': boolean;
+  watch: boolean;
+  latin1: boolean;
+  'skipped-report': boolean;
+  'max-file-size': string;
+  'max-total-size': string;
+  truncate: boolean;
+  'skip-generated': boolean;
+  concurrency: number;
+  secrets: SecretsMode;
+  extract: string;
+  target: string;
+  'dry-run': boolean;
+  report: ReportFormat;
+  profile?: string;
+  'print-config': boolean;
+}
+
+// Function to parse environment variable arguments into an array
+function parseEnvArgs(envArgs: string | undefined): string[] {
+  if (!envArgs) return [];
+  return envArgs.match(/(?:[^\s"]+|"[^"]*")+/g) || [];
+}
+
+// Parse environment variable arguments
+const envArgs = parseEnvArgs(process.env.TXTZIP_ARGS);
+
+// Initial parse to get the options that select the configuration
+const initialArgv = yargs([...envArgs, ...hideBin(process.argv)])
+  .options({
+    source: {
+      alias: 's',
+      type: 'array',
+      string: true,
+    },
+    profile: {
+      type: 'string',
+    },
+  })
+  .help(false)
+  .version(false)
+  .parseSync();
+
+// Settings in `txtzip.json`: defaults for the command-line options, plus settings that only exist there
+type Config = Omit<Partial<Args>, 'outline' | 'source'> & {
+  // One source folder, or several written as `path` or `label=path`
+  source?: string | string[];
+  'secret-rules'?: SecretRule[];
+  transforms?: ConfigTransformRule[];
+  converters?: ConfigConverterRule[];
+  // Glob patterns of the files that come first when ordering by priority
+  priority?: string[];
+  // true outlines every file, like `--outline` without a pattern
+  outline?: string | boolean;
+};
+
+// Transforms for the files matching glob patterns, as written in `txtzip.json`
+interface ConfigTransformRule {
+  files: string | string[];
+  'strip-empty-lines'?: boolean;
+  'strip-comments'?: boolean;
+  'compact-indent'?: boolean;
+}
+
+// Converter for the files matching glob patterns, as written in `txtzip.json`
+interface ConfigConverterRule {
+  files: string | string[];
+  converter: ConverterName;
+  rows?: number;
+  outputs?: NotebookOutputs;
+  'min-size'?: string | number;
+}
+
+// Load `txtzip.json` from the source folder or one of its parents, with the selected profile applied
+let config: LoadedConfig;
+try {
+  const firstSource = initialArgv.source?.[0];
+  config = loadConfig(path.resolve(firstSource ? parseSourceRoot(firstSource).path : '.'), initialArgv.profile);
+} catch (error) {
+  console.error(getErrorMessage(error));
+  process.exit(1);
+}
+const configDefaults = config.values as Config;
+
+// Resolve the source folders to absolute paths; sources set in txtzip.json are relative to that file
+const sourceRoots: SourceRootOption[] = [initialArgv.source ?? configDefaults.source ?? '.']
+  .flat()
+  .map(parseSourceRoot)
+  .map(root => ({ ...root, path: path.resolve(root.path) }));
+
+// Command-line options, with the settings of txtzip.json as defaults
+const cliOptions = {
+  source: {
+    alias: 's',
+    type: 'array',
+    string: true,
+    description: 'Source folders, or .zip, .tar or .tar.gz files, to archive, each optionally labeled as label=path (defaults to current working directory)',
+  },
+  workspaces: {
+    type: 'boolean',
+    description: 'Archive the workspace packages declared in package.json or pnpm-workspace.yaml of the source folder',
+    default: configDefaults.workspaces ?? false,
+  },
+  output: {
+    alias: 'o',
+    type: 'string',
+    nargs: 1, // Lets `--output -` take the dash as its value
+    description: 'Output file name, or - for stdout (defaults to txtzip.md in the current directory, or txtzip.xml, txtzip-archive.json or txtzip.txt for other formats)',
+    default: configDefaults.output ?? '',
+  },
+  overwrite: {
+    alias: 'w',
+    type: 'boolean',
+    description: 'Overwrite the output file if it exists',
+    default: configDefaults.overwrite ?? false,
+  },
+  'source-only': {
+    alias: 'S',
+    type: 'boolean',
+    description: 'Only include files with source code related extensions',
+    default: configDefaults['source-only'] ?? false,
+  },
+  'strip-empty-lines': {
+    alias: 'e',
+    type: 'boolean',
+    description: 'Strip empty lines from files',
+    default: configDefaults['strip-empty-lines'] ?? false,
+  },
+  'strip-comments': {
+    type: 'boolean',
+    description: 'Strip comments from files in languages with known comment syntax',
+    default: configDefaults['strip-comments'] ?? false,
+  },
+  'compact-indent': {
+    type: 'boolean',
+    description: 'Shrink each indentation level to a single space',
+    default: configDefaults['compact-indent'] ?? false,
+  },
+  convert: {
+    type: 'boolean',
+    description: 'Convert notebooks, large data files and SVGs to compact text (use --no-convert to include them as they are)',
+    default: configDefaults.convert ?? true,
+  },
+  outline: {
+    type: 'string',
+    // No default, since yargs would use it for `--outline` without a pattern; txtzip.json is applied below
+    description: 'Outline TypeScript and JavaScript files, optionally only those matching a glob pattern',
+  },
+  'check-update': {
+    alias: 'u',
+    type: 'boolean',
+    description: 'Check for the latest version available',
+    default: configDefaults['check-update'] ?? false,
+  },
+  order: {
+    choices: fileOrders,
+    description: `Order of the files in the archive, the tree and the chunks: by path, size (smallest first), modification time (newest first) or the priority patterns in ${configFileName}`,
+    default: configDefaults.order ?? (configDefaults.priority?.length ? 'priority' : 'path'),
+  },
+  include: {
+    alias: 'i',
+    type: 'array',
+    description: 'Include files matching the given glob patterns',
+    default: configDefaults.include ?? [],
+  },
+  exclude: {
+    alias: 'x',
+    type: 'array',
+    description: 'Exclude files matching the given glob patterns',
+    default: configDefaults.exclude ?? [],
+  },
+  'chunk-size': {
+    alias: 'c',
+    type: 'string',
+    description: 'Maximum size of each output file (e.g., 1M, 512k)',
+    default: configDefaults['chunk-size'] ?? '',
+  },
+  'prefix-tree': {
+    alias: 'p',
+    type: 'boolean',
+    description: 'Prefix the output with a tree-like structure of included files',
+    default: configDefaults['prefix-tree'] ?? false,
+  },
+  'line-numbers': {
+    type: 'boolean',
+    description: 'Prefix each line of file content with its line number',
+    default: configDefaults['line-numbers'] ?? false,
+  },
+  'file-meta': {
+    type: 'boolean',
+    description: 'Add the size, line count, modification time and last git commit of each file to its header',
+    default: configDefaults['file-meta'] ?? false,
+  },
+  header: {
+    type: 'string',
+    description: 'Template file with text for the start of every output file, with variables such as {{part}}, {{partCount}} and {{tree}}',
+    default: configDefaults.header ?? '',
+  },
+  footer: {
+    type: 'string',
+    description: 'Template file with text for the end of every output file',
+    default: configDefaults.footer ?? '',
+  },
+  'part-preambles': {
+    type: 'boolean',
+    description: 'Tell the model which part of a chunked archive it is reading and to wait for the last one (use --no-part-preambles to leave this out)',
+    default: configDefaults['part-preambles'] ?? true,
+  },
+  'project-name': {
+    type: 'string',
+    description: 'Project name used in templates and part preambles (defaults to the name of the source folder)',
+    default: configDefaults['project-name'] ?? '',
+  },
+  manifest: {
+    type: 'boolean',
+    description: 'Write a manifest with the path, size, content hash and chunks of each file next to the output',
+    default: configDefaults.manifest ?? false,
+  },
+  'since-manifest': {
+    type: 'string',
+    description: 'Only archive the files added or modified since the given manifest, and list the deleted and renamed files',
+    default: configDefaults['since-manifest'] ?? '',
+  },
+  'chunk-tokens': {
+    alias: 'T',
+    type: 'number',
+    description: 'Maximum estimated tokens of each output file (instead of --chunk-size)',
+    default: configDefaults['chunk-tokens'] ?? 0,
+  },
+  'max-tokens': {
+    alias: 'm',
+    type: 'number',
+    description: 'Maximum estimated tokens of the whole archive',
+    default: configDefaults['max-tokens'] ?? 0,
+  },
+  encoding: {
+    alias: 'E',
+    choices: tokenEncodings,
+    description: 'Encoding used to estimate token counts',
+    default: configDefaults.encoding ?? 'cl100k',
+  },
+  'over-budget': {
+    choices: ['fail', 'drop'] as const,
+    description: 'Fail, or drop the files that do not fit, when the archive exceeds --max-tokens',
+    default: configDefaults['over-budget'] ?? 'fail',
+  },
+  format: {
+    alias: 'f',
+    choices: outputFormats,
+    description: 'Output format of the archive',
+    default: configDefaults.format ?? 'markdown',
+  },
+  'default-ignores': {
+    type: 'boolean',
+    description: 'Skip common editor, OS and lock files (use --no-default-ignores to include them)',
+    default: configDefaults['default-ignores'] ?? true,
+  },
+  'changed-since': {
+    type: 'string',
+    description: 'Only include files changed since the given git ref, including uncommitted and untracked files',
+    default: configDefaults['changed-since'] ?? '',
+  },
+  staged: {
+    type: 'boolean',
+    description: 'Only include files with staged changes',
+    default: configDefaults.staged ?? false,
+  },
+  'tracked-only': {
+    type: 'boolean',
+    description: 'Only include files tracked by git',
+    default: configDefaults['tracked-only'] ?? false,
+  },
+  'with-diff': {
+    type: 'boolean',
+    description: 'Add the unified diff of each file after its content (requires --changed-since or --staged)',
+    default: configDefaults['with-diff'] ?? false,
+  },
+  'files-from': {
+    type: 'string',
+    nargs: 1, // Lets `--files-from -` take the dash as its value
+    description: 'Archive the files listed in the given file instead of walking the source folder (newline- or NUL-separated, - for stdin)',
+    default: configDefaults['files-from'] ?? '',
+  },
+  entry: {
+    type: 'array',
+    string: true,
+    description: 'Archive the given files and the local files they import, instead of walking the source folder',
+    default: configDefaults.entry ?? [],
+  },
+  depth: {
+    type: 'number',
+    description: 'Maximum number of import levels followed from the entry files (0 only includes the entry files)',
+    default: configDefaults.depth,
+  },
+  'list-imports': {
+    type: 'boolean',
+    description: 'List the external packages and unresolved imports of the entry files at the top of the archive',
+    default: configDefaults['list-imports'] ?? false,
+  },
+  watch: {
+    type: 'boolean',
+    description: 'Keep running and rewrite the archive whenever files in the source folder change',
+    default: configDefaults.watch ?? false,
+  },
+  latin1: {
+    type: 'boolean',
+    description: 'Decode files that are not valid UTF-8 as Latin-1 instead of skipping them as binary',
+    default: configDefaults.latin1 ?? false,
+  },
+  'skipped-report': {
+    type: 'boolean',
+    description: 'List every file skipped as binary and why',
+    default: configDefaults['skipped-report'] ?? false,
+  },
+  'max-file-size': {
+    type: 'string',
+    description: 'Skip files larger than the given size (e.g., 1M, 512k)',
+    default: configDefaults['max-file-size'] ?? '',
+  },
+  'max-total-size': {
+    type: 'string',
+    description: 'Skip the remaining files once their total size reaches the given size (e.g., 10M)',
+    default: configDefaults['max-total-size'] ?? '',
+  },
+  truncate: {
+    type: 'boolean',
+    description: 'Truncate files larger than --max-file-size to head and tail excerpts instead of skipping them',
+    default: configDefaults.truncate ?? false,
+  },
+  'skip-generated': {
+    type: 'boolean',
+    description: 'Skip minified and generated files such as lockfiles and bundles (use --no-skip-generated to include them)',
+    default: configDefaults['skip-generated'] ?? true,
+  },
+  concurrency: {
+    type: 'number',
+    description: 'Maximum number of files read at the same time',
+    default: configDefaults.concurrency ?? defaultConcurrency,
+  },
+  secrets: {
+    choices: secretsModes,
+    description: 'Redact secrets, skip the files that contain them, fail, or turn secret scanning off',
+    default: configDefaults.secrets ?? 'redact',
+  },
+  extract: {
+    alias: 'X',
+    type: 'string',
+    description: 'Extract files from a txtzip Markdown archive instead of creating one',
+    default: '',
+  },
+  target: {
+    alias: 't',
+    type: 'string',
+    description: 'Target folder for extracted files (defaults to current working directory)',
+    default: configDefaults.target ?? '.',
+  },
+  'dry-run': {
+    alias: 'n',
+    type: 'boolean',
+    description: 'List the files that would be written, or show the statistics of the archive, without writing anything',
+    default: configDefaults['dry-run'] ?? false,
+  },
+  report: {
+    choices: ['text', 'json'] as const,
+    description: 'Print the statistics of the archive as text, or as JSON on stdout',
+    default: configDefaults.report ?? 'text',
+  },
+  profile: {
+    type: 'string',
+    description: `Apply the settings of the given profile in ${configFileName}`,
+  },
+  'print-config': {
+    type: 'boolean',
+    description: 'Print the effective options and where each value comes from, without doing anything else',
+    default: false,
+  },
+} satisfies { [key: string]: Options };
+
+// Now parse argv again, providing the configuration as defaults
+const argv = yargs([...envArgs, ...hideBin(process.argv)])
+  .usage('Usage: txtzip [options]')
+  .wrap(process.stdout.columns || 80) // Set the wrap width to the terminal width
+  .options(cliOptions)
+  .alias('help', 'h')
+  .alias('version', 'v')
+  .version()
+  .help('help')
+  .epilog('For more information, visit https://github.com/nightness/txtzip')
+  .parseSync() as Args;
+
+// Extract the values for command-line arguments
+const {
+  workspaces,
+  output,
+  overwrite: overwriteOutput,
+  'source-only': sourceOnly,
+  'strip-empty-lines': stripEmptyLines,
+  'strip-comments': stripComments,
+  'compact-indent': compactIndent,
+  convert,
+  outline: outlinePattern,
+  'check-update': checkUpdate,
+  order,
+  include: includePatterns,
+  exclude: excludePatterns,
+  'chunk-size': chunkSizeStr,
+  'prefix-tree': prefixTree,
+  'line-numbers': lineNumbers,
+  'file-meta': fileMeta,
+  header: headerFile,
+  footer: footerFile,
+  'part-preambles': partPreambles,
+  'project-name': projectName,
+  manifest,
+  'since-manifest': sinceManifestFile,
+  'chunk-tokens': chunkTokens,
+  'max-tokens': maxTokens,
+  encoding,
+  'over-budget': overBudget,
+  format,
+  'default-ignores': defaultIgnores,
+  'changed-since': changedSince,
+  staged,
+  'tracked-only': trackedOnly,
+  'with-diff': withDiff,
+  'files-from': filesFrom,
+  entry: entryFiles,
+  depth,
+  'list-imports': listImports,
+  watch,
+  latin1,
+  'skipped-report': skippedReport,
+  'max-file-size': maxFileSize,
+  'max-total-size': maxTotalSize,
+  truncate,
+  'skip-generated': skipGenerated,
+  concurrency,
+  secrets,
+  extract: extractArchivePath,
+  target,
+  'dry-run': dryRun,
+  report,
+  'print-config': printConfig,
+} = argv;
+
+// Validate the chunk size before doing any work
+if (chunkSizeStr) {
+  try {
+    parseSize(chunkSizeStr);
+  } catch (error) {
+    console.error(getErrorMessage(error));
+    process.exit(1);
+  }
+}
+
+if (report === 'json' && output === stdoutOutput && !dryRun) {
+  console.error('The JSON report and the archive cannot both be written to stdout.');
+  process.exit(1);
+}
+
+if (chunkSizeStr && chunkTokens) {
+  console.error('The --chunk-size and --chunk-tokens options cannot be used together.');
+  process.exit(1);
+}
+
+// Function to read a header or footer template file
+function readTemplateFile(file: string, name: string): string {
+  if (!file) {
+    return '';
+  }
+  try {
+    return readFileSync(file, 'utf8');
+  } catch (error) {
+    console.error(`Failed to read the ${name} template ${file}: ${getErrorMessage(error)}`);
+    process.exit(1);
+  }
+}
+
+// Function to read the manifest of an earlier archive, exiting if it can't be read
+function readManifestFile(file: string): Snapshot | undefined {
+  if (!file) {
+    return undefined;
+  }
+  try {
+    return readSnapshot(file);
+  } catch (error) {
+    console.error(getErrorMessage(error));
+    process.exit(1);
+  }
+}
+
+// Function to convert the outline option to the API option: an empty pattern or true outlines every file
+function getOutlineOption(pattern: string | boolean | undefined): boolean | string[] {
+  if (pattern === undefined || pattern === false) {
+    return false;
+  }
+  return pattern === '' || pattern === true ? true : [pattern];
+}
+
+// Map the command-line arguments to the programmatic API options
+const archiveOptions: ArchiveOptions = {
+  source: sourceRoots,
+  workspaces,
+  output,
+  overwrite: overwriteOutput,
+  sourceOnly,
+  stripEmptyLines,
+  stripComments,
+  compactIndent,
+  transforms: configDefaults.transforms?.map(rule => ({
+    files: rule.files,
+    stripEmptyLines: rule['strip-empty-lines'],
+    stripComments: rule['strip-comments'],
+    compactIndent: rule['compact-indent'],
+  })),
+  convert,
+  converters: configDefaults.converters?.map(rule => ({
+    files: rule.files,
+    converter: rule.converter,
+    rows: rule.rows,
+    outputs: rule.outputs,
+    minSize: rule['min-size'] === undefined ? undefined : parseSize(String(rule['min-size'])),
+  })),
+  outline: getOutlineOption(outlinePattern ?? configDefaults.outline),
+  order,
+  priority: configDefaults.priority,
+  include: includePatterns,
+  exclude: excludePatterns,
+  chunkSize: chunkSizeStr,
+  prefixTree,
+  lineNumbers,
+  fileMeta,
+  headerTemplate: readTemplateFile(headerFile, 'header'),
+  footerTemplate: readTemplateFile(footerFile, 'footer'),
+  partPreambles,
+  projectName,
+  manifest,
+  sinceManifest: readManifestFile(sinceManifestFile),
+  chunkTokens,
+  maxTokens,
+  encoding,
+  overBudget,
+  format,
+  defaultIgnores,
+  changedSince,
+  staged,
+  trackedOnly,
+  withDiff,
+  filesFrom,
+  entry: entryFiles,
+  depth,
+  listImports,
+  latin1,
+  maxFileSize,
+  maxTotalSize,
+  truncate,
+  skipGenerated,
+  concurrency,
+  secrets,
+  secretRules: configDefaults['secret-rules'],
+};
+
+// Names of the output formats used in status messages
+const formatNames: { [key in OutputFormat]: string } = {
+  markdown: 'Markdown',
+  xml: 'XML',
+  json: 'JSON',
+  text: 'Text',
+};
+
+// Function to print where secrets were found, without the secrets themselves
+function printSecretFindings(findings: SecretFinding[]): void {
+  for (const finding of findings) {
+    const location = finding.line === undefined ? finding.relativePath : `${finding.relativePath}:${finding.line}`;
+    console.error(`  ${location}${finding.inDiff ? ' (diff)' : ''}: ${finding.rule}`);
+  }
+}
+
+// Function to print an error from creating an archive
+function printCreateError(error: unknown): void {
+  if (error instanceof OutputExistsError) {
+    console.error(`${error.message}. Use the -w flag to overwrite it.`);
+  } else if (error instanceof SecretsFoundError) {
+    console.error(`${error.message}:`);
+    printSecretFindings(error.findings);
+    console.error('Use --secrets redact or --secrets skip-file to archive the files anyway.');
+  } else {
+    console.error(`Error while creating ${format} archive: ${getErrorMessage(error)}`);
+  }
+}
+
+// Function to print the per-chunk and per-file sizes and token estimates of an archive
+function printArchiveSummary(result: StreamedArchiveResult, outputFilePaths: string[]): void {
+  const totalTokens = result.chunkTokens.reduce((sum, tokens) => sum + tokens, 0);
+
+  for (let i = 0; i < outputFilePaths.length; i++) {
+    const size = result.chunkSizes[i];
+    const outputName = outputFilePaths[i] === stdoutOutput ? 'stdout' : path.relative(process.cwd(), outputFilePaths[i]);
+    console.error(
+      `  ${outputName}: ${size} bytes, ~${formatTokens(result.chunkTokens[i])} tokens`
+    );
+  }
+
+  console.error(`Included ${result.manifest.length} file(s), ~${formatTokens(totalTokens)} tokens (${encoding}):`);
+  for (const entry of result.manifest) {
+    const notes = (entry.truncated ? ' (truncated)' : '')
+      + (entry.outlined ? ' (outline)' : '')
+      + (entry.converted ? ` (converted: ${entry.converted})` : '');
+    console.error(`  ${entry.path}: ${entry.size} bytes, ~${formatTokens(entry.tokens)} tokens${notes}`);
+  }
+
+  printChanges(result);
+  printLeftOutFiles(result);
+  if (result.snapshot) {
+    const manifestPath = getManifestPath(resolveArchiveOptions(archiveOptions).output);
+    console.error(`Manifest written to ${path.relative(process.cwd(), manifestPath)}.`);
+  }
+}
+
+// Function to print how the files compare to the manifest of a delta archive
+function printChanges(result: StreamedArchiveResult): void {
+  if (!result.changes) {
+    return;
+  }
+  const { added, modified, deleted, renamed, unchanged } = result.changes;
+  console.error(
+    `Since the manifest: ${added.length} added, ${modified.length} modified, ${deleted.length} deleted, ` +
+    `${renamed.length} renamed and ${unchanged.length} unchanged file(s); only added and modified files are included.`
+  );
+}
+
+// Function to print the files dropped or skipped, and the secrets found, while creating an archive
+function printLeftOutFiles(result: StreamedArchiveResult): void {
+  if (result.dropped.length > 0) {
+    console.error(`Dropped ${result.dropped.length} file(s) to stay within the token budget:`);
+    for (const droppedPath of result.dropped) {
+      console.error(`  ${droppedPath}`);
+    }
+  }
+
+  // Binary files are only listed on request, since most projects have plenty of them
+  const skipped = result.skipped.filter(skippedFile => skippedReport || skippedFile.kind !== 'binary');
+  if (skipped.length > 0) {
+    console.error(`Skipped ${skipped.length} file(s):`);
+    for (const skippedFile of skipped) {
+      console.error(`  ${skippedFile.relativePath}: ${skippedFile.reason}`);
+    }
+  }
+
+  // External packages are expected, but local imports that don't resolve may point at missing files
+  const unresolvedImports = result.unresolvedImports.filter(entry => entry.kind === 'unresolved');
+  if (unresolvedImports.length > 0) {
+    console.error(`Could not resolve ${unresolvedImports.length} import(s) to files in the source folder:`);
+    for (const entry of unresolvedImports) {
+      console.error(`  ${entry.relativePath}: ${entry.specifier}`);
+    }
+  }
+
+  if (result.secrets.length > 0) {
+    // Files that were skipped because of their secrets are listed with the other skipped files
+    console.error(`Found ${result.secrets.length} secret(s):`);
+    printSecretFindings(result.secrets);
+  }
+}
+
+// Function to print the statistics of an archive that would be created, without writing it
+function printDryRunReport(result: StreamedArchiveResult, stats: ArchiveStats): void {
+  console.error('Files:');
+  for (const file of stats.files) {
+    console.error(`  ${file.path}: ${file.size} bytes, ${file.lines} lines, ~${formatTokens(file.tokens)} tokens`);
+  }
+
+  if (stats.directories.length > 0) {
+    console.error('Directories:');
+    for (const dir of stats.directories) {
+      console.error(
+        `  ${dir.path}/: ${dir.files} file(s), ${dir.size} bytes, ${dir.lines} lines, ~${formatTokens(dir.tokens)} tokens`
+      );
+    }
+  }
+
+  if (stats.largest.length > 0) {
+    console.error('Largest files:');
+    for (const file of stats.largest) {
+      console.error(`  ${file.path}: ${file.size} bytes`);
+    }
+  }
+
+  printChanges(result);
+  printLeftOutFiles(result);
+
+  const { totals } = stats;
+  const chunkLimit = chunkTokens ? ` (--chunk-tokens ${chunkTokens})` : chunkSizeStr ? ` (--chunk-size ${chunkSizeStr})` : '';
+  console.error(
+    `Dry run: ${totals.files} file(s), ${totals.size} bytes, ${totals.lines} lines, ~${formatTokens(totals.tokens)} tokens ` +
+    `(${encoding}) would be written to ${stats.chunkCount} output file(s)${chunkLimit}.`
+  );
+}
+
+// Function to create the text archive from the source folder
+async function createTextArchive(): Promise<void> {
+  try {
+    if (dryRun) {
+      const result = await createArchive(archiveOptions);
+      const resolvedOutput = resolveArchiveOptions(archiveOptions).output;
+      const outputFilePaths = resolvedOutput === stdoutOutput
+        ? [stdoutOutput]
+        : getOutputFilePaths(resolvedOutput, result.chunks.length);
+      const stats = getArchiveStats(result, outputFilePaths);
+      if (report === 'json') {
+        console.log(JSON.stringify(stats, null, 2));
+      } else {
+        printDryRunReport(result, stats);
+      }
+      return;
+    }
+
+    // Chunks are written one at a time as they are rendered, so large archives aren't held in memory
+    const { result, outputFilePaths } = await streamArchive(archiveOptions);
+
+    console.error(`${formatNames[format]} archive created successfully with ${result.chunkSizes.length} file(s).`);
+    printArchiveSummary(result, outputFilePaths);
+    if (report === 'json') {
+      console.log(JSON.stringify(getArchiveStats(result, outputFilePaths), null, 2));
+    }
+  } catch (error) {
+    printCreateError(error);
+    process.exitCode = 1;
+  }
+}
+
+// Function to keep the text archive up to date while files in the source folder change
+async function watchTextArchive(): Promise<void> {
+  try {
+    await watchArchive(archiveOptions, {
+      onBuild: ({ result, outputFilePaths, changedFiles }) => {
+        const time = new Date().toLocaleTimeString();
+        if (changedFiles.length > 0) {
+          console.error(`[${time}] Changed: ${changedFiles.join(', ')}`);
+        }
+        console.error(`[${time}] ${formatNames[format]} archive written with ${result.chunkSizes.length} file(s).`);
+        printArchiveSummary(result, outputFilePaths);
+        console.error('Watching for changes (press Ctrl+C to stop)...');
+      },
+      onError: error => {
+        printCreateError(error);
+      },
+    });
+  } catch (error) {
+    printCreateError(error);
+    process.exitCode = 1;
+  }
+}
+
+// Function to extract files from a txtzip Markdown archive into the target folder
+async function extractTextArchive(): Promise<void> {
+  try {
+    const result = await extractArchive({
+      archive: extractArchivePath,
+      target,
+      overwrite: overwriteOutput,
+      dryRun,
+    });
+
+    if (dryRun) {
+      for (const file of result.files) {
+        const size = Buffer.byteLength(file.content, 'utf8');
+        console.error(`${path.relative(process.cwd(), file.outputPath)} (${size} bytes)`);
+      }
+      console.error(`Dry run: ${result.files.length} file(s) would be extracted from ${result.chunkPaths.length} archive file(s).`);
+      return;
+    }
+
+    console.error(`Extracted ${result.files.length} file(s) from ${result.chunkPaths.length} archive file(s).`);
+  } catch (error) {
+    if (error instanceof OutputExistsError) {
+      for (const existingPath of error.paths) {
+        console.error(`File already exists: ${existingPath}`);
+      }
+      console.error('Use the -w flag to overwrite existing files.');
+    } else {
+      console.error(`Error while extracting markdown archive: ${getErrorMessage(error)}`);
+    }
+    process.exitCode = 1;
+  }
+}
+
+// Function to find the options given explicitly in a list of arguments, by parsing them without defaults
+function getGivenOptions(args: string[]): Set<string> {
+  const optionsWithoutDefaults: { [key: string]: Options } = {};
+  for (const [key, { default: _default, ...option }] of Object.entries(cliOptions as { [key: string]: Options })) {
+    optionsWithoutDefaults[key] = option;
+  }
+  const parsed = yargs(args).options(optionsWithoutDefaults).help(false).version(false).parseSync();
+  return new Set(Object.keys(cliOptions).filter(key => parsed[key] !== undefined));
+}
+
+// Function to print the effective options, merged from the built-in defaults, txtzip.json, TXTZIP_ARGS and the
+// command line, and where each value comes from
+function printEffectiveConfig(): void {
+  const profile = config.profile ? ` (profile ${config.profile})` : '';
+  console.log(`Config file: ${config.file ?? 'none'}${profile}`);
+
+  const envOptions = getGivenOptions(envArgs);
+  const commandLineOptions = getGivenOptions(hideBin(process.argv));
+  const values: { [key: string]: unknown } = {
+    ...argv,
+    source: sourceRoots.map(root => (root.label ? `${root.label}=${root.path}` : root.path)),
+    outline: archiveOptions.outline,
+    'secret-rules': configDefaults['secret-rules'] ?? [],
+    transforms: configDefaults.transforms ?? [],
+    converters: configDefaults.converters ?? [],
+    priority: configDefaults.priority ?? defaultPriority,
+  };
+
+  for (const key of Object.keys(configSchema)) {
+    const origin = commandLineOptions.has(key)
+      ? 'command line'
+      : envOptions.has(key)
+        ? 'TXTZIP_ARGS'
+        : config.sources[key] ?? 'default';
+    const value = values[key] === undefined ? 'none' : JSON.stringify(values[key]);
+    console.log(`  ${key}: ${value} (${origin})`);
+  }
+}
+
+// Function to check for the latest version on npm
+function checkForLatestVersion() {
+  const packageName = 'txtzip';
+  const npmRegistryUrl = `https://registry.npmjs.org/${packageName}`;
+
+  // Read the current version from package.json
+  const packageJsonPath = path.join(__dirname, '..', 'package.json');
+  let currentVersion = '';
+
+  try {
+    const packageJsonContent = readFileSync(packageJsonPath, 'utf8');
+    const packageJson = JSON.parse(packageJsonContent);
+    currentVersion = packageJson.version;
+    console.log(`Current version: ${currentVersion}`);
+  } catch (error) {
+    console.error('Failed to read package.json:', error);
+    process.exit(1);
+  }
+
+  https
+    .get(npmRegistryUrl, (res) => {
+      let data = '';
+
+      res.on('data', (chunk) => {
+        data += chunk;
+      });
+
+      res.on('end', () => {
+        try {
+          const npmData = JSON.parse(data);
+          const latestVersion = npmData['dist-tags'].latest;
+
+          if (latestVersion !== currentVersion) {
+            console.log(
+              `A new version of ${packageName} is available: ${latestVersion}. You are using version ${currentVersion}.`
+            );
+            console.log(
+              `Run 'npm install -g ${packageName}' to update to the latest version.`
+            );
+          } else {
+            console.log(`You are using the latest version (${currentVersion}).`);
+          }
+        } catch (error) {
+          console.error('Failed to parse npm registry data:', error);
+        }
+      });
+    })
+    .on('error', (err) => {
+      console.error('Failed to check for latest version:', err);
+    });
+}
+
+// Main execution
+if (printConfig) {
+  printEffectiveConfig();
+} else if (checkUpdate) {
+  checkForLatestVersion();
+} else if (extractArchivePath) {
+  extractTextArchive();
+} else if (watch) {
+  watchTextArchive();
+} else {
+  // Start the main process
+  createTextArchive();
+}
@@ -0,0 +1,418 @@
+import { getLanguageFromExtension } from './languages.js';
+
+// Comment and string syntax of a language family
+export interface CommentSyntax {
+  lineComments: string[];
+  // Start and end delimiters of block comments
+  blockComments: [string, string][];
+  // Quotes of strings that end on the line they start on
+  quotes: string[];
+  // Start and end delimiters of strings that can span lines, such as triple-quoted strings
+  multilineStrings?: [string, string][];
+  // Backtick strings with ${} expressions, as in JavaScript
+  templateLiterals?: boolean;
+  // Regular expression literals, as in JavaScript
+  regexLiterals?: boolean;
+  // Block comments can contain other block comments, as in Rust and Haskell
+  nestedBlockComments?: boolean;
+  // Line comments only start after whitespace, as in shell scripts where # can be part of a word
+  lineCommentAfterSpace?: boolean;
+  // Line comments only start at the beginning of a line, as in Gherkin
+  lineCommentAtLineStart?: boolean;
+  // Strings only start at the beginning of a value, as in YAML and ini files where unquoted text can contain quotes
+  quotesAtValueStart?: boolean;
+  // Quotes that are escaped by doubling them instead of with a backslash, as in YAML single-quoted strings
+  doubledQuotes?: string[];
+}
+
+const cLike: CommentSyntax = { lineComments: ['//'], blockComments: [['/*', '*/']], quotes: ['"', "'"] };
+
+const javascript: CommentSyntax = { ...cLike, templateLiterals: true, regexLiterals: true };
+
+const tripleQuoted: CommentSyntax = { ...cLike, multilineStrings: [['"""', '"""']] };
+
+const hash: CommentSyntax = { lineComments: ['#'], blockComments: [], quotes: ['"', "'"] };
+
+const python: CommentSyntax = { ...hash, multilineStrings: [['"""', '"""'], ["'''", "'''"]] };
+
+const shell: CommentSyntax = {
+  lineComments: ['#'],
+  blockComments: [],
+  quotes: [],
+  multilineStrings: [['"', '"'], ["'", "'"]],
+  lineCommentAfterSpace: true,
+};
+
+const haskell: CommentSyntax = {
+  lineComments: ['--'],
+  blockComments: [['{-', '-}']],
+  quotes: ['"'],
+  nestedBlockComments: true,
+};
+
+const ml: CommentSyntax = { lineComments: [], blockComments: [['(*', '*)']], quotes: ['"'], nestedBlockComments: true };
+
+const lisp: CommentSyntax = { lineComments: [';'], blockComments: [], quotes: ['"'] };
+
+const markup: CommentSyntax = { lineComments: [], blockComments: [['<!--', '-->']], quotes: [] };
+
+// Comment syntax of the languages known to getLanguageFromExtension, by language name
+const commentSyntaxes: { [language: string]: CommentSyntax } = {
+  javascript,
+  typescript: javascript,
+  jsx: javascript,
+  tsx: javascript,
+  c: cLike,
+  cpp: cLike,
+  csharp: cLike,
+  java: tripleQuoted,
+  kotlin: { ...tripleQuoted, nestedBlockComments: true },
+  scala: tripleQuoted,
+  swift: { ...tripleQuoted, nestedBlockComments: true },
+  groovy: { ...cLike, multilineStrings: [['"""', '"""'], ["'''", "'''"]] },
+  dart: { ...cLike, multilineStrings: [['"""', '"""'], ["'''", "'''"]] },
+  go: { ...cLike, multilineStrings: [['`', '`']] },
+  rust: { ...cLike, quotes: ['"'], nestedBlockComments: true },
+  php: { ...cLike, lineComments: ['//', '#'] },
+  css: { ...cLike, lineComments: [] },
+  scss: { ...cLike, lineCommentAfterSpace: true },
+  less: { ...cLike, lineCommentAfterSpace: true },
+  python,
+  gdscript: python,
+  ruby: { ...hash, blockComments: [['=begin', '=end']] },
+  perl: hash,
+  r: hash,
+  elixir: { ...hash, multilineStrings: [['"""', '"""']] },
+  julia: { ...hash, blockComments: [['#=', '=#']], multilineStrings: [['"""', '"""']], nestedBlockComments: true },
+  nim: { ...hash, blockComments: [['#[', ']#']], multilineStrings: [['"""', '"""']], nestedBlockComments: true },
+  coffeescript: { ...hash, blockComments: [['###', '###']], multilineStrings: [['"""', '"""'], ["'''", "'''"]] },
+  powershell: { ...hash, blockComments: [['<#', '#>']] },
+  bash: shell,
+  // Quoted YAML values can span lines
+  yaml: {
+    lineComments: ['#'],
+    blockComments: [],
+    quotes: [],
+    multilineStrings: [['"', '"'], ["'", "'"]],
+    doubledQuotes: ["'"],
+    lineCommentAfterSpace: true,
+    quotesAtValueStart: true,
+  },
+  toml: { ...hash, multilineStrings: [['"""', '"""'], ["'''", "'''"]] },
+  ini: { lineComments: [';', '#'], blockComments: [], quotes: ['"', "'"], lineCommentAfterSpace: true, quotesAtValueStart: true },
+  gherkin: {
+    lineComments: ['#'],
+    blockComments: [],
+    quotes: [],
+    multilineStrings: [['"""', '"""'], ['```', '```']],
+    lineCommentAtLineStart: true,
+  },
+  sql: { lineComments: ['--'], blockComments: [['/*', '*/']], quotes: ["'", '"'] },
+  lua: { lineComments: ['--'], blockComments: [['--[[', ']]']], quotes: ['"', "'"], multilineStrings: [['[[', ']]']] },
+  haskell,
+  elm: haskell,
+  purescript: haskell,
+  idris: haskell,
+  ocaml: ml,
+  fsharp: { ...ml, lineComments: ['//'] },
+  erlang: { lineComments: ['%'], blockComments: [], quotes: ['"', "'"] },
+  latex: { lineComments: ['%'], blockComments: [], quotes: [] },
+  clojure: lisp,
+  racket: { ...lisp, blockComments: [['#|', '|#']], nestedBlockComments: true },
+  fortran: { lineComments: ['!'], blockComments: [], quotes: ['"', "'"] },
+  'vb.net': { lineComments: ["'"], blockComments: [], quotes: ['"'] },
+  vbscript: { lineComments: ["'"], blockComments: [], quotes: ['"'] },
+  vba: { lineComments: ["'"], blockComments: [], quotes: ['"'] },
+  assembly: { lineComments: [';'], blockComments: [], quotes: ['"', "'"] },
+  html: markup,
+  xml: markup,
+  handlebars: { ...markup, blockComments: [['{{!--', '--}}'], ['{{!', '}}'], ['<!--', '-->']] },
+};
+
+// Comments that change how the code is built or type-checked, which are kept when stripping comments
+const directiveCommentRegex = /^(\/\/\/\s*<reference\b|\/\/go:|\/\/\s*\+build\b|\/\/\s*@ts-)/;
+
+// Keywords after which a slash starts a regular expression instead of a division
+const regexPrefixKeywords = ['return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void', 'throw', 'case', 'do', 'else', 'yield', 'await'];
+
+export type SegmentKind = 'code' | 'comment' | 'string';
+
+// A run of code, a comment or a string literal (including template literals and regular expressions)
+export interface Segment {
+  kind: SegmentKind;
+  start: number;
+  end: number;
+}
+
+// Function to get the comment syntax of a file extension, or null for languages without known comment syntax
+export function getCommentSyntax(ext: string): CommentSyntax | null {
+  return commentSyntaxes[getLanguageFromExtension(ext)] ?? null;
+}
+
+// Function to find the end of a block comment that starts at a position, including its end delimiter
+function findBlockCommentEnd(content: string, index: number, delimiters: [string, string], nested: boolean): number {
+  const [open, close] = delimiters;
+  let depth = 0;
+  let i = index;
+  while (i < content.length) {
+    if (content.startsWith(open, i) && (nested || depth === 0)) {
+      depth++;
+      i += open.length;
+    } else if (content.startsWith(close, i)) {
+      depth--;
+      i += close.length;
+      if (depth === 0) {
+        return i;
+      }
+    } else {
+      i++;
+    }
+  }
+  return content.length;
+}
+
+// Function to find the end of a string that starts at a position, including its closing delimiter. Strings with
+// doubled quotes escape the closing delimiter by repeating it instead of with a backslash.
+function findStringEnd(
+  content: string,
+  index: number,
+  open: string,
+  close: string,
+  multiline: boolean,
+  doubled = false
+): number {
+  for (let i = index + open.length; i < content.length; i++) {
+    if (content[i] === '\\' && !doubled) {
+      i++;
+    } else if (doubled && content.startsWith(close + close, i)) {
+      i += close.length * 2 - 1;
+    } else if (content.startsWith(close, i)) {
+      return i + close.length;
+    } else if (content[i] === '\n' && !multiline) {
+      return i;
+    }
+  }
+  return content.length;
+}
+
+// Function to find the end of a regular expression literal, or -1 if the slash doesn't start one
+function findRegexEnd(content: string, index: number): number {
+  let inClass = false;
+  for (let i = index + 1; i < content.length; i++) {
+    const char = content[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '\n') {
+      return -1;
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === ']') {
+      inClass = false;
+    } else if (char === '/' && !inClass) {
+      return i + 1;
+    }
+  }
+  return -1;
+}
+
+// Function to scan the rest of a template literal, stopping after its closing backtick or at a ${ expression
+function scanTemplate(content: string, index: number): { end: number; expression: boolean } {
+  for (let i = index; i < content.length; i++) {
+    if (content[i] === '\\') {
+      i++;
+    } else if (content[i] === '`') {
+      return { end: i + 1, expression: false };
+    } else if (content.startsWith('${', i)) {
+      return { end: i + 2, expression: true };
+    }
+  }
+  return { end: content.length, expression: false };
+}
+
+// Function to check if a slash after the given code is the start of a regular expression rather than a division
+function isRegexContext(content: string, lastCodeIndex: number): boolean {
+  if (lastCodeIndex < 0) {
+    return true;
+  }
+  const previous = content[lastCodeIndex];
+  if (/[\w$]/.test(previous)) {
+    const word = content.slice(Math.max(0, lastCodeIndex - 15), lastCodeIndex + 1).match(/[A-Za-z_$][\w$]*$/);
+    return word !== null && regexPrefixKeywords.includes(word[0]);
+  }
+  return !/[)\]"'`]/.test(previous);
+}
+
+// Function to find the last character before a position on its line that isn't a space or tab, or -1 if there is none
+function findPreviousOnLine(content: string, index: number): number {
+  let i = index - 1;
+  while (i >= 0 && (content[i] === ' ' || content[i] === '\t')) {
+    i--;
+  }
+  return i < 0 || content[i] === '\n' || content[i] === '\r' ? -1 : i;
+}
+
+// Function to check if a position starts a value in YAML or ini: at the beginning of a line, after a key separator,
+// in a flow collection, or after a list item or complex key indicator followed by whitespace
+function isValueStart(content: string, index: number): boolean {
+  const previous = findPreviousOnLine(content, index);
+  if (previous === -1) {
+    return true;
+  }
+  return /[:=[{,]/.test(content[previous]) || (/[-?]/.test(content[previous]) && previous < index - 1);
+}
+
+// Function to split a file into code, comments and strings, so comment-like text inside strings is left alone
+export function splitSegments(content: string, syntax: CommentSyntax): Segment[] {
+  const segments: Segment[] = [];
+  const addSegment = (kind: SegmentKind, start: number, end: number) => {
+    const last = segments[segments.length - 1];
+    if (last && last.kind === kind) {
+      last.end = end;
+    } else if (end > start) {
+      segments.push({ kind, start, end });
+    }
+  };
+
+  // Brace depth inside each ${} expression of the template literals being scanned
+  const templateDepths: number[] = [];
+  // Position of the last code character that isn't whitespace, to tell regular expressions from divisions
+  let lastCodeIndex = -1;
+  let i = 0;
+
+  // A shebang line is kept as code
+  if (content.startsWith('#!')) {
+    i = content.indexOf('\n') === -1 ? content.length : content.indexOf('\n');
+    addSegment('code', 0, i);
+  }
+
+  while (i < content.length) {
+    const char = content[i];
+    const rest = (delimiter: string) => content.startsWith(delimiter, i);
+
+    if (char === '\\') {
+      addSegment('code', i, Math.min(i + 2, content.length));
+      i += 2;
+      continue;
+    }
+
+    // The closing brace of a ${} expression continues the template literal
+    if (templateDepths.length > 0 && (char === '{' || char === '}')) {
+      const depth = templateDepths.length - 1;
+      if (char === '}' && templateDepths[depth] === 0) {
+        templateDepths.pop();
+        const template = scanTemplate(content, i + 1);
+        if (template.expression) {
+          templateDepths.push(0);
+        }
+        addSegment('string', i, template.end);
+        lastCodeIndex = template.end - 1;
+        i = template.end;
+        continue;
+      }
+      templateDepths[depth] += char === '{' ? 1 : -1;
+    }
+
+    const block = syntax.blockComments.find(([open]) => rest(open));
+    if (block) {
+      const end = findBlockCommentEnd(content, i, block, syntax.nestedBlockComments ?? false);
+      addSegment('comment', i, end);
+      i = end;
+      continue;
+    }
+
+    const lineComment = syntax.lineComments.find(rest);
+    const isCommentStart = (!syntax.lineCommentAfterSpace || i === 0 || /\s/.test(content[i - 1])) &&
+      (!syntax.lineCommentAtLineStart || findPreviousOnLine(content, i) === -1);
+    if (lineComment && isCommentStart) {
+      let end = content.indexOf('\n', i);
+      end = end === -1 ? content.length : end;
+      if (content[end - 1] === '\r') {
+        end--;
+      }
+      addSegment('comment', i, end);
+      i = end;
+      continue;
+    }
+
+    // Quotes inside unquoted values, such as apostrophes, don't start strings
+    const canStartString = !syntax.quotesAtValueStart || isValueStart(content, i);
+
+    const multiline = canStartString ? syntax.multilineStrings?.find(([open]) => rest(open)) : undefined;
+    if (multiline) {
+      const doubled = syntax.doubledQuotes?.includes(multiline[0]);
+      const end = findStringEnd(content, i, multiline[0], multiline[1], true, doubled);
+      addSegment('string', i, end);
+      lastCodeIndex = end - 1;
+      i = end;
+      continue;
+    }
+
+    if (syntax.templateLiterals && char === '`') {
+      const template = scanTemplate(content, i + 1);
+      if (template.expression) {
+        templateDepths.push(0);
+      }
+      addSegment('string', i, template.end);
+      lastCodeIndex = template.end - 1;
+      i = template.end;
+      continue;
+    }
+
+    if (canStartString && syntax.quotes.includes(char)) {
+      const end = findStringEnd(content, i, char, char, false, syntax.doubledQuotes?.includes(char));
+      addSegment('string', i, end);
+      lastCodeIndex = end - 1;
+      i = end;
+      continue;
+    }
+
+    if (syntax.regexLiterals && char === '/' && isRegexContext(content, lastCodeIndex)) {
+      const end = findRegexEnd(content, i);
+      if (end !== -1) {
+        addSegment('string', i, end);
+        lastCodeIndex = end - 1;
+        i = end;
+        continue;
+      }
+    }
+
+    addSegment('code', i, i + 1);
+    if (!/\s/.test(char)) {
+      lastCodeIndex = i;
+    }
+    i++;
+  }
+
+  return segments;
+}
+
+// Function to remove the comments from a file, dropping the lines that only held comments
+export function stripComments(content: string, syntax: CommentSyntax): string {
+  let result = '';
+  // Drop the line break after a comment that filled its whole line
+  let skipLineBreak = false;
+
+  for (const segment of splitSegments(content, syntax)) {
+    let text = content.slice(segment.start, segment.end);
+
+    if (skipLineBreak) {
+      text = text.replace(/^\r?\n/, '');
+      skipLineBreak = false;
+    }
+
+    if (segment.kind !== 'comment' || directiveCommentRegex.test(text)) {
+      result += text;
+      continue;
+    }
+
+    // Remove the whitespace before a comment that ends its line
+    const next = content.slice(segment.end, segment.end + 2);
+    if (segment.end === content.length || next.startsWith('\n') || next === '\r\n') {
+      result = result.replace(/[ \t]+$/, '');
+      const lineStart = result.lastIndexOf('\n') + 1;
+      skipLineBreak = lineStart === result.length;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,20 @@
+import type ts from 'typescript';
+
+// The compiler is only loaded when a feature needs it, since it is large
+let compiler: typeof ts | null = null;
+
+// Function to load the TypeScript compiler API on first use. The compiler is an optional peer dependency, so it may
+// not be installed.
+export async function loadCompiler(): Promise<typeof ts> {
+  if (!compiler) {
+    try {
+      compiler = (await import('typescript')).default;
+    } catch (error: any) {
+      if (error?.code !== 'ERR_MODULE_NOT_FOUND') {
+        throw error;
+      }
+      throw new Error('--outline and --entry need the TypeScript compiler: install it with `npm install typescript`');
+    }
+  }
+  return compiler;
+}
@@ -0,0 +1,397 @@
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { findGitRoot } from './ignore.js';
+import { parseSize } from './options.js';
+import { tokenEncodings } from './tokens.js';
+import { outputFormats } from './formats.js';
+import { secretsModes } from './secrets.js';
+import { ConfigError } from './errors.js';
+import { parseSourceRoot } from './roots.js';
+import { fileOrders } from './order.js';
+import { converterNames } from './converters.js';
+
+// Name of the configuration file
+export const configFileName = 'txtzip.json';
+
+// Settings of a configuration file or profile, keyed by the kebab-case command-line option names
+export type ConfigValues = { [key: string]: unknown };
+
+// Configuration found for a source folder, with the selected profile applied
+export interface LoadedConfig {
+  // Path of the configuration file, or null if none was found
+  file: string | null;
+  // Profile applied on top of the top-level settings, if any
+  profile: string | null;
+  // Validated settings, with relative paths resolved against the folder of the configuration file
+  values: ConfigValues;
+  // Where each setting comes from, e.g., `txtzip.json` or `txtzip.json, profile review`
+  sources: { [key: string]: string };
+}
+
+// Type of a setting: a primitive, a size, a list of strings, one of a set of choices or a structured setting
+type ConfigValueType =
+  | 'string'
+  | 'boolean'
+  | 'number'
+  | 'size'
+  | 'string-array'
+  | 'string-or-array'
+  | 'string-or-boolean'
+  | 'secret-rules'
+  | 'transforms'
+  | 'converters'
+  | readonly string[];
+
+// Settings accepted in `txtzip.json` and its profiles
+export const configSchema: { [key: string]: ConfigValueType } = {
+  source: 'string-or-array',
+  workspaces: 'boolean',
+  output: 'string',
+  overwrite: 'boolean',
+  'source-only': 'boolean',
+  'strip-empty-lines': 'boolean',
+  'strip-comments': 'boolean',
+  'compact-indent': 'boolean',
+  outline: 'string-or-boolean',
+  'check-update': 'boolean',
+  order: fileOrders,
+  priority: 'string-array',
+  include: 'string-array',
+  exclude: 'string-array',
+  'chunk-size': 'size',
+  'prefix-tree': 'boolean',
+  'line-numbers': 'boolean',
+  'file-meta': 'boolean',
+  header: 'string',
+  footer: 'string',
+  'part-preambles': 'boolean',
+  'project-name': 'string',
+  manifest: 'boolean',
+  'since-manifest': 'string',
+  'chunk-tokens': 'number',
+  'max-tokens': 'number',
+  encoding: tokenEncodings,
+  'over-budget': ['fail', 'drop'],
+  format: outputFormats,
+  'default-ignores': 'boolean',
+  'changed-since': 'string',
+  staged: 'boolean',
+  'tracked-only': 'boolean',
+  'with-diff': 'boolean',
+  'files-from': 'string',
+  entry: 'string-array',
+  depth: 'number',
+  'list-imports': 'boolean',
+  watch: 'boolean',
+  latin1: 'boolean',
+  'skipped-report': 'boolean',
+  'max-file-size': 'size',
+  'max-total-size': 'size',
+  truncate: 'boolean',
+  'skip-generated': 'boolean',
+  concurrency: 'number',
+  secrets: secretsModes,
+  target: 'string',
+  'dry-run': 'boolean',
+  report: ['text', 'json'],
+  'secret-rules': 'secret-rules',
+  transforms: 'transforms',
+  convert: 'boolean',
+  converters: 'converters',
+};
+
+// Older spellings of settings, which are still accepted
+const legacyKeys: { [key: string]: string } = {
+  chunkSize: 'chunk-size',
+};
+
+// Settings that hold paths, which are relative to the folder of the configuration file ('-' stands for stdin or stdout)
+const pathKeys = ['source', 'output', 'target', 'files-from', 'entry', 'header', 'footer', 'since-manifest'];
+
+// Keys of a transform rule besides the file patterns
+const transformKeys = ['strip-empty-lines', 'strip-comments', 'compact-indent'];
+
+// Keys of a converter rule, with their types
+const converterKeys: { [key: string]: ConfigValueType } = {
+  files: 'string-or-array',
+  converter: converterNames,
+  rows: 'number',
+  outputs: ['summary', 'strip'],
+  'min-size': 'size',
+};
+
+// Function to find the configuration file, searching from a folder up to the root of its git repository
+export function findConfigFile(startFolder: string): string | null {
+  const gitRoot = findGitRoot(startFolder);
+  let current = path.resolve(startFolder);
+  while (true) {
+    const configFile = path.join(current, configFileName);
+    if (existsSync(configFile)) {
+      return configFile;
+    }
+    // Outside a git repository, only the start folder is searched
+    const parent = path.dirname(current);
+    if (!gitRoot || current === gitRoot || parent === current) {
+      return null;
+    }
+    current = parent;
+  }
+}
+
+// Function to describe the type of a JSON value in error messages
+function describeType(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'an array' : `a ${typeof value}`;
+}
+
+// Function to check if a value is a plain JSON object
+function isObject(value: unknown): value is ConfigValues {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Function to check a value against the type of a setting, returning a description of the problem if it doesn't match
+function checkValue(value: unknown, type: ConfigValueType): string | null {
+  if (Array.isArray(type)) {
+    return typeof value === 'string' && type.includes(value)
+      ? null
+      : `must be one of ${type.map(choice => `"${choice}"`).join(', ')}`;
+  }
+
+  switch (type) {
+    case 'string':
+    case 'boolean':
+      return typeof value === type ? null : `must be a ${type}, not ${describeType(value)}`;
+    case 'number':
+      if (typeof value !== 'number') {
+        return `must be a non-negative number, not ${describeType(value)}`;
+      }
+      return Number.isFinite(value) && value >= 0 ? null : `must be a non-negative number, got ${value}`;
+    case 'size':
+      if (typeof value === 'number' && Number.isInteger(value) && value >= 0) {
+        return null;
+      }
+      try {
+        parseSize(String(value));
+        return typeof value === 'string' ? null : `must be a size such as "1M" or a number of bytes`;
+      } catch {
+        return `must be a size such as "1M" or a number of bytes`;
+      }
+    case 'string-array':
+      return Array.isArray(value) && value.every(item => typeof item === 'string')
+        ? null
+        : `must be an array of strings, not ${describeType(value)}`;
+    case 'string-or-array':
+      return typeof value === 'string' || checkValue(value, 'string-array') === null
+        ? null
+        : `must be a string or an array of strings, not ${describeType(value)}`;
+    case 'string-or-boolean':
+      return typeof value === 'string' || typeof value === 'boolean'
+        ? null
+        : `must be a string or a boolean, not ${describeType(value)}`;
+    case 'secret-rules':
+      if (!Array.isArray(value)) {
+        return `must be an array of { "name", "pattern" } rules, not ${describeType(value)}`;
+      }
+      for (const [index, rule] of value.entries()) {
+        if (!isObject(rule) || typeof rule.name !== 'string' || typeof rule.pattern !== 'string') {
+          return `rule ${index + 1} must have a "name" and a "pattern" string`;
+        }
+        try {
+          new RegExp(rule.pattern);
+        } catch (error: any) {
+          return `rule ${rule.name} has an invalid pattern: ${error?.message}`;
+        }
+      }
+      return null;
+    case 'transforms':
+      if (!Array.isArray(value)) {
+        return `must be an array of transform rules, not ${describeType(value)}`;
+      }
+      for (const [index, rule] of value.entries()) {
+        const files = isObject(rule) ? rule.files : undefined;
+        if (!isObject(rule) || !(typeof files === 'string' || checkValue(files, 'string-array') === null)) {
+          return `rule ${index + 1} must have "files" as a glob pattern or an array of them`;
+        }
+        const unknownKey = Object.keys(rule).find(key => key !== 'files' && !transformKeys.includes(key));
+        if (unknownKey) {
+          return `rule ${index + 1} has an unknown setting "${unknownKey}"`;
+        }
+        const nonBoolean = transformKeys.find(key => key in rule && typeof rule[key] !== 'boolean');
+        if (nonBoolean) {
+          return `rule ${index + 1} must have "${nonBoolean}" as a boolean`;
+        }
+      }
+      return null;
+    case 'converters':
+      if (!Array.isArray(value)) {
+        return `must be an array of converter rules, not ${describeType(value)}`;
+      }
+      for (const [index, rule] of value.entries()) {
+        if (!isObject(rule) || rule.files === undefined || rule.converter === undefined) {
+          return `rule ${index + 1} must have "files" and a "converter"`;
+        }
+        for (const [key, ruleValue] of Object.entries(rule)) {
+          const keyType = converterKeys[key];
+          if (keyType === undefined) {
+            return `rule ${index + 1} has an unknown setting "${key}"`;
+          }
+          const problem = checkValue(ruleValue, keyType);
+          if (problem) {
+            return `rule ${index + 1}: "${key}" ${problem}`;
+          }
+        }
+      }
+      return null;
+  }
+  return null;
+}
+
+// Function to suggest the setting a misspelled key was meant to be, e.g., `chunkTokens` for `chunk-tokens`
+function suggestKey(key: string): string {
+  const kebabKey = key.replace(/[A-Z]/g, char => '-' + char.toLowerCase()).replace(/_/g, '-');
+  return kebabKey in configSchema ? ` (did you mean "${kebabKey}"?)` : '';
+}
+
+// Function to validate the settings of the top level or a profile, adding the problems found to issues
+function validateSettings(settings: ConfigValues, location: string, issues: string[], allowed: string[]): void {
+  for (const [key, value] of Object.entries(settings)) {
+    const name = location ? `${location}.${key}` : key;
+    if (allowed.includes(key)) {
+      continue;
+    }
+    const type = configSchema[legacyKeys[key] ?? key];
+    if (type === undefined) {
+      issues.push(`${name}: unknown setting${suggestKey(key)}`);
+      continue;
+    }
+    const problem = checkValue(value, type);
+    if (problem) {
+      issues.push(`${name}: ${problem}`);
+    }
+  }
+}
+
+// Function to validate a parsed configuration file, returning the problems found
+export function validateConfig(config: unknown): string[] {
+  const issues: string[] = [];
+  if (!isObject(config)) {
+    return [`the configuration must be an object, not ${describeType(config)}`];
+  }
+
+  validateSettings(config, '', issues, ['profiles']);
+
+  if (config.profiles !== undefined) {
+    if (!isObject(config.profiles)) {
+      issues.push(`profiles: must be an object of named profiles, not ${describeType(config.profiles)}`);
+      return issues;
+    }
+    for (const [name, profile] of Object.entries(config.profiles)) {
+      if (!isObject(profile)) {
+        issues.push(`profiles.${name}: must be an object, not ${describeType(profile)}`);
+        continue;
+      }
+      validateSettings(profile, `profiles.${name}`, issues, ['extends']);
+
+      const parents = profile.extends === undefined ? [] : [profile.extends].flat();
+      for (const parent of parents) {
+        if (typeof parent !== 'string' || !isObject(config.profiles[parent])) {
+          issues.push(`profiles.${name}.extends: unknown profile ${JSON.stringify(parent)}`);
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+// Function to copy the settings of the top level or a profile, renaming legacy keys and resolving paths
+function normalizeSettings(settings: ConfigValues, configFolder: string): ConfigValues {
+  const values: ConfigValues = {};
+  for (const [key, value] of Object.entries(settings)) {
+    if (key === 'profiles' || key === 'extends') {
+      continue;
+    }
+    const name = legacyKeys[key] ?? key;
+    const resolvePath = (item: string) => (item === '-' ? item : path.resolve(configFolder, item));
+
+    if (name === 'source') {
+      // Source folders can be labeled, as in `web=apps/web`
+      values[name] = [value as string | string[]].flat().map(parseSourceRoot)
+        .map(root => (root.label ? `${root.label}=` : '') + resolvePath(root.path));
+    } else if (pathKeys.includes(name)) {
+      values[name] = Array.isArray(value) ? value.map(resolvePath) : resolvePath(value as string);
+    } else if (typeof value === 'number' && configSchema[name] === 'size') {
+      values[name] = String(value);
+    } else {
+      values[name] = value;
+    }
+  }
+  return values;
+}
+
+// Function to apply a profile and the profiles it extends to the settings, in order, recording where each comes from
+function applyProfile(
+  profiles: { [name: string]: ConfigValues },
+  name: string,
+  configFolder: string,
+  result: LoadedConfig,
+  chain: string[]
+): void {
+  if (chain.includes(name)) {
+    throw new ConfigError(result.file!, [`profiles.${name}.extends: circular reference (${[...chain, name].join(' -> ')})`]);
+  }
+  const profile = profiles[name];
+  if (!profile) {
+    const available = Object.keys(profiles);
+    throw new Error(
+      `Unknown profile "${name}"` + (available.length > 0 ? `; available profiles: ${available.join(', ')}` : '')
+    );
+  }
+
+  // The profiles this one extends are applied first, so its own settings win
+  const parents = profile.extends === undefined ? [] : [profile.extends as string | string[]].flat();
+  for (const parent of parents) {
+    applyProfile(profiles, parent, configFolder, result, [...chain, name]);
+  }
+
+  for (const [key, value] of Object.entries(normalizeSettings(profile, configFolder))) {
+    result.values[key] = value;
+    result.sources[key] = `${path.basename(result.file!)}, profile ${name}`;
+  }
+}
+
+// Function to load the configuration for a source folder, validate it and apply a profile
+export function loadConfig(startFolder: string, profile?: string): LoadedConfig {
+  const file = findConfigFile(startFolder);
+  const result: LoadedConfig = { file, profile: profile ?? null, values: {}, sources: {} };
+  if (!file) {
+    if (profile) {
+      throw new Error(`Profile "${profile}" was requested, but no ${configFileName} was found`);
+    }
+    return result;
+  }
+
+  let config: unknown;
+  try {
+    config = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (error: any) {
+    throw new ConfigError(file, [error?.message]);
+  }
+  const issues = validateConfig(config);
+  if (issues.length > 0) {
+    throw new ConfigError(file, issues);
+  }
+
+  const configFolder = path.dirname(file);
+  const settings = config as ConfigValues;
+  for (const [key, value] of Object.entries(normalizeSettings(settings, configFolder))) {
+    result.values[key] = value;
+    result.sources[key] = path.basename(file);
+  }
+  if (profile) {
+    applyProfile((settings.profiles ?? {}) as { [name: string]: ConfigValues }, profile, configFolder, result, []);
+  }
+  return result;
+}
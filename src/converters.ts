@@ -0,0 +1,335 @@
+import path from 'path';
+import { minimatch } from 'minimatch';
+import { getCommentSyntax } from './comments.js';
+import { getLanguageFromExtension } from './languages.js';
+
+// Converters that turn special file formats into compact text, and 'none' to include files as they are
+export const converterNames = ['notebook', 'table', 'json-structure', 'svg', 'none'] as const;
+
+export type ConverterName = typeof converterNames[number];
+
+// What to do with the outputs of notebook cells
+export type NotebookOutputs = 'summary' | 'strip';
+
+// Converter for the files matching a glob pattern; later rules override earlier ones
+export interface ConverterRule {
+  // Glob patterns of the files the rule applies to (patterns without a slash match in every folder)
+  files: string | string[];
+  converter: ConverterName;
+  // Number of sample rows kept by the table converter (defaults to 10)
+  rows?: number;
+  // Whether the notebook converter summarizes or strips cell outputs (defaults to summary)
+  outputs?: NotebookOutputs;
+  // Only convert files of at least this many bytes
+  minSize?: number;
+}
+
+// Converters applied unless turned off, before the rules from the options
+export const defaultConverters: ConverterRule[] = [
+  { files: '*.ipynb', converter: 'notebook' },
+  { files: ['*.csv', '*.tsv', '*.jsonl', '*.ndjson'], converter: 'table' },
+  { files: '*.svg', converter: 'svg' },
+  { files: '*.json', converter: 'json-structure', minSize: 100 * 1024 },
+];
+
+// Result of converting a file
+export interface ConvertedContent {
+  content: string;
+  // Language of the converted content, used for its code block instead of the one from the extension
+  language: string;
+}
+
+// Default number of sample rows kept by the table converter
+const defaultSampleRows = 10;
+
+// Number of lines of a text output kept in a notebook output summary
+const outputSummaryLines = 5;
+
+// Number of elements of an array looked at to describe the structure of its items
+const structureSampleSize = 100;
+
+// Function to check if a converter name is supported
+export function isConverterName(name: string): name is ConverterName {
+  return (converterNames as readonly string[]).includes(name);
+}
+
+// Function to find the converter rule of a file: the last matching rule, or null if the file is included as it is
+export function getFileConverter(relativePath: string, size: number, rules: ConverterRule[]): ConverterRule | null {
+  const posixPath = relativePath.split(path.sep).join('/');
+  let match: ConverterRule | null = null;
+
+  for (const rule of rules) {
+    const patterns = Array.isArray(rule.files) ? rule.files : [rule.files];
+    if (patterns.some(pattern => minimatch(posixPath, pattern, { matchBase: !pattern.includes('/'), dot: true }))) {
+      match = rule;
+    }
+  }
+
+  if (!match || match.converter === 'none' || size < (match.minSize ?? 0)) {
+    return null;
+  }
+  return match;
+}
+
+// Function to check if a JSON value is an object
+function isJsonObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Output of a notebook code cell
+interface NotebookOutput {
+  // stream, execute_result, display_data or error
+  output_type: string;
+  // Name of the stream of a stream output, e.g., stdout
+  name?: string;
+  text?: string | string[];
+  // Name and message of the exception of an error output
+  ename?: string;
+  evalue?: string;
+  // Data of a result or display output by MIME type
+  data?: { [mimeType: string]: unknown };
+}
+
+// Cell of a notebook
+interface NotebookCell {
+  // code, markdown or raw
+  cell_type: string;
+  source?: string | string[];
+  outputs?: unknown[];
+}
+
+// Function to check if a JSON value is a string or an array of lines, as the sources and texts of notebooks are
+function isNotebookText(value: unknown): value is string | string[] {
+  return typeof value === 'string' || (Array.isArray(value) && value.every(line => typeof line === 'string'));
+}
+
+// Function to check if a JSON value is a notebook cell output
+function isNotebookOutput(value: unknown): value is NotebookOutput {
+  return (
+    isJsonObject(value) &&
+    typeof value.output_type === 'string' &&
+    (value.name === undefined || typeof value.name === 'string') &&
+    (value.text === undefined || isNotebookText(value.text)) &&
+    (value.ename === undefined || typeof value.ename === 'string') &&
+    (value.evalue === undefined || typeof value.evalue === 'string') &&
+    (value.data === undefined || isJsonObject(value.data))
+  );
+}
+
+// Function to check if a JSON value is a notebook cell
+function isNotebookCell(value: unknown): value is NotebookCell {
+  return (
+    isJsonObject(value) &&
+    typeof value.cell_type === 'string' &&
+    (value.source === undefined || isNotebookText(value.source)) &&
+    (value.outputs === undefined || Array.isArray(value.outputs))
+  );
+}
+
+// Function to join the source of a notebook cell, which is a string or an array of lines
+function joinSource(source: unknown): string {
+  return Array.isArray(source) ? source.join('') : typeof source === 'string' ? source : '';
+}
+
+// Function to summarize the outputs of a notebook code cell as comment lines, leaving out outputs of unknown shape
+function summarizeOutputs(outputs: unknown[], comment: string): string[] {
+  const lines: string[] = [];
+  // Function to add the first lines of a text output
+  const addText = (label: string, text: string) => {
+    const textLines = text.replace(/\n$/, '').split('\n');
+    lines.push(`${comment} [${label}]`);
+    lines.push(...textLines.slice(0, outputSummaryLines).map(line => `${comment}   ${line}`.trimEnd()));
+    if (textLines.length > outputSummaryLines) {
+      lines.push(`${comment}   ... (${textLines.length - outputSummaryLines} more lines)`);
+    }
+  };
+
+  for (const output of outputs.filter(isNotebookOutput)) {
+    if (output.output_type === 'stream') {
+      addText(output.name ?? 'stream', joinSource(output.text));
+    } else if (output.output_type === 'error') {
+      lines.push(`${comment} [error] ${output.ename}: ${output.evalue}`);
+    } else if (output.data) {
+      for (const [mimeType, data] of Object.entries(output.data)) {
+        if (mimeType === 'text/plain') {
+          addText('result', joinSource(data));
+        } else {
+          // Images, HTML and other rich outputs are only named, with their size
+          const size = Buffer.byteLength(joinSource(data) || JSON.stringify(data), 'utf8');
+          lines.push(`${comment} [${mimeType} output, ${size} bytes]`);
+        }
+      }
+    }
+  }
+  return lines;
+}
+
+// Function to render a Jupyter notebook in the percent format, with `# %%` lines before each cell and Markdown cells
+// as comments. Cell outputs are summarized or left out. Returns null if the file isn't a notebook.
+function convertNotebook(content: string, outputs: NotebookOutputs): ConvertedContent | null {
+  let notebook: unknown;
+  try {
+    notebook = JSON.parse(content);
+  } catch {
+    return null;
+  }
+  const cells = isJsonObject(notebook) ? notebook.cells : undefined;
+  if (!isJsonObject(notebook) || !Array.isArray(cells) || !cells.every(isNotebookCell)) {
+    return null;
+  }
+
+  const metadata = isJsonObject(notebook.metadata) ? notebook.metadata : {};
+  const languageInfo = isJsonObject(metadata.language_info) ? metadata.language_info : {};
+  const kernelspec = isJsonObject(metadata.kernelspec) ? metadata.kernelspec : {};
+  const languageName = typeof languageInfo.name === 'string' ? languageInfo.name : kernelspec.language;
+  const language = (typeof languageName === 'string' ? languageName : 'python').toLowerCase();
+  const ext = typeof languageInfo.file_extension === 'string' ? languageInfo.file_extension : '.py';
+  const comment = getCommentSyntax(ext)?.lineComments[0] ?? '#';
+
+  const sections = cells.map(cell => {
+    const source = joinSource(cell.source).replace(/\n$/, '');
+    if (cell.cell_type === 'code') {
+      const outputLines = outputs === 'summary' && cell.outputs ? summarizeOutputs(cell.outputs, comment) : [];
+      return [`${comment} %%`, ...(source ? [source] : []), ...outputLines].join('\n');
+    }
+    // Markdown and raw cells are commented out, so the result reads as a script
+    const commented = source.split('\n').map(line => `${comment} ${line}`.trimEnd());
+    return [`${comment} %% [${cell.cell_type}]`, ...(source ? commented : [])].join('\n');
+  });
+  return { content: sections.join('\n\n') + '\n', language };
+}
+
+// Function to split CSV text into records, keeping line breaks inside quoted fields
+function splitCsvRecords(content: string): string[] {
+  const records: string[] = [];
+  let start = 0;
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '"') {
+      inQuotes = !inQuotes;
+    } else if (content[i] === '\n' && !inQuotes) {
+      records.push(content.slice(start, i + 1));
+      start = i + 1;
+    }
+  }
+  if (start < content.length) {
+    records.push(content.slice(start));
+  }
+  return records;
+}
+
+// Languages of the code blocks of converted tables
+const tableLanguages: { [ext: string]: string } = {
+  '.csv': 'csv',
+  '.tsv': 'tsv',
+  '.jsonl': 'json',
+  '.ndjson': 'json',
+};
+
+// Function to keep the header and the first rows of a CSV, TSV or JSON Lines file, with a line giving the number of
+// rows. Returns null if the file has no more rows than are kept.
+function convertTable(relativePath: string, content: string, rows: number): ConvertedContent | null {
+  const ext = path.extname(relativePath).toLowerCase();
+  const records = (ext === '.csv' ? splitCsvRecords(content) : content.match(/[^\n]*\n|[^\n]+$/g) ?? [])
+    .filter(record => record.trim() !== '');
+  // JSON Lines files have no header row
+  const headerCount = ext === '.csv' || ext === '.tsv' ? Math.min(1, records.length) : 0;
+  const rowCount = records.length - headerCount;
+  if (rowCount <= rows) {
+    return null;
+  }
+
+  const kept = records.slice(0, headerCount + rows).map(record => (record.endsWith('\n') ? record : record + '\n'));
+  const marker = `... [converted by txtzip: showing ${rows} of ${rowCount} rows] ...\n`;
+  return { content: kept.join('') + marker, language: tableLanguages[ext] ?? getLanguageFromExtension(ext) };
+}
+
+// Function to describe the types of JSON values together: objects are merged key by key, with keys that only some of
+// them have marked with `?`, and the items of arrays are described together from the first ones
+function describeJsonTypes(values: unknown[], indent: string): string[] {
+  const types = new Set<string>();
+  const arrays = values.filter(Array.isArray);
+  const objects = values.filter(isJsonObject);
+
+  for (const value of values) {
+    if (value === null) {
+      types.add('null');
+    } else if (!Array.isArray(value) && !isJsonObject(value)) {
+      types.add(typeof value);
+    }
+  }
+
+  if (arrays.length > 0) {
+    const items = arrays.flatMap(array => array.slice(0, structureSampleSize));
+    // The length is only given for a single array, since the lengths of the arrays of many objects vary
+    const name = arrays.length === 1 ? `Array(${arrays[0].length})` : 'Array';
+    const itemTypes = describeJsonTypes(items, indent);
+    const itemType = itemTypes.length > 1 ? `(${itemTypes.join(' | ')})` : itemTypes[0];
+    types.add(items.length > 0 ? `${name} of ${itemType}` : name);
+  }
+
+  if (objects.length > 0) {
+    const keys = [...new Set(objects.flatMap(object => Object.keys(object)))];
+    const innerIndent = indent + '  ';
+    const fields = keys.map(key => {
+      const fieldValues = objects.filter(object => key in object).map(object => object[key]);
+      const optional = fieldValues.length < objects.length ? '?' : '';
+      return `${innerIndent}${JSON.stringify(key)}${optional}: ${describeJsonTypes(fieldValues, innerIndent).join(' | ')}`;
+    });
+    types.add(fields.length > 0 ? `{\n${fields.join('\n')}\n${indent}}` : '{}');
+  }
+
+  return [...types];
+}
+
+// Function to describe the type of a JSON value
+function describeJson(value: unknown, indent: string): string {
+  return describeJsonTypes([value], indent).join(' | ');
+}
+
+// Function to replace the content of a JSON file with its key structure and the types of its values. Returns null if
+// the file isn't valid JSON.
+function convertJsonStructure(content: string): ConvertedContent | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch {
+    return null;
+  }
+  const size = Buffer.byteLength(content, 'utf8');
+  return {
+    content: `// Structure of ${size} bytes of JSON, converted by txtzip\n${describeJson(value, '')}\n`,
+    language: 'plaintext',
+  };
+}
+
+// Function to replace the path data and embedded images of an SVG file with their sizes, keeping the elements
+function convertSvg(content: string): ConvertedContent | null {
+  const converted = content
+    .replace(
+      /(\s(?:d|points)=)(["'])([^"']{80,})\2/g,
+      (_, name, quote, data) => `${name}${quote}[${data.length} characters of path data]${quote}`
+    )
+    .replace(
+      /(data:[\w/+.-]+;base64,)[A-Za-z0-9+/=\s]{80,}/g,
+      (match, prefix) => `${prefix}[${match.length - prefix.length} characters]`
+    );
+  return converted === content ? null : { content: converted, language: 'xml' };
+}
+
+// Function to convert the content of a file with its converter, or return null to include it as it is
+export function convertContent(relativePath: string, content: string, rule: ConverterRule): ConvertedContent | null {
+  switch (rule.converter) {
+    case 'notebook':
+      return convertNotebook(content, rule.outputs ?? 'summary');
+    case 'table':
+      return convertTable(relativePath, content, rule.rows ?? defaultSampleRows);
+    case 'json-structure':
+      return convertJsonStructure(content);
+    case 'svg':
+      return convertSvg(content);
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,103 @@
+// Encodings that text files are decoded from
+export type TextEncoding = 'utf8' | 'utf8-bom' | 'utf16le' | 'utf16be' | 'latin1';
+
+// Result of decoding a file: its text, or the reason it was treated as binary
+export type DecodeResult =
+  | { text: string; encoding: TextEncoding }
+  | { binaryReason: string };
+
+// Extensions of files that are always binary, whatever their content looks like
+export const binaryExtensions = [
+  '.png', '.jpg', '.jpeg', '.gif', '.bmp', '.ico', '.icns', '.webp', '.tif', '.tiff', '.psd', '.heic',
+  '.mp3', '.wav', '.ogg', '.flac', '.aac', '.m4a', '.mp4', '.m4v', '.mov', '.avi', '.mkv', '.webm',
+  '.zip', '.gz', '.tgz', '.bz2', '.xz', '.7z', '.rar', '.tar', '.jar', '.war', '.apk', '.dmg', '.iso',
+  '.exe', '.dll', '.so', '.dylib', '.o', '.obj', '.a', '.lib', '.class', '.pyc', '.pyo', '.wasm', '.node',
+  '.sqlite', '.sqlite3', '.db', '.mdb', '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx',
+  '.woff', '.woff2', '.ttf', '.otf', '.eot', '.bin', '.dat', '.pak', '.pdb',
+];
+
+// Signatures at the start of common binary file formats
+const magicNumbers: { name: string; signature: number[] }[] = [
+  { name: 'PNG image', signature: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { name: 'JPEG image', signature: [0xff, 0xd8, 0xff] },
+  { name: 'GIF image', signature: [...Buffer.from('GIF8')] },
+  { name: 'PDF document', signature: [...Buffer.from('%PDF-')] },
+  { name: 'ZIP archive', signature: [0x50, 0x4b, 0x03, 0x04] },
+  { name: 'gzip archive', signature: [0x1f, 0x8b] },
+  { name: '7-Zip archive', signature: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { name: 'SQLite database', signature: [...Buffer.from('SQLite format 3\0')] },
+  { name: 'ELF executable', signature: [0x7f, 0x45, 0x4c, 0x46] },
+  { name: 'Mach-O executable', signature: [0xcf, 0xfa, 0xed, 0xfe] },
+  { name: 'Java class file', signature: [0xca, 0xfe, 0xba, 0xbe] },
+  { name: 'WebAssembly module', signature: [0x00, 0x61, 0x73, 0x6d] },
+  { name: 'WOFF font', signature: [...Buffer.from('wOFF')] },
+  { name: 'WOFF2 font', signature: [...Buffer.from('wOF2')] },
+];
+
+// Number of bytes checked for NUL and control characters, as git does
+const sampleSize = 8000;
+
+// Function to find the binary format a buffer starts with, if any
+function findMagicNumber(buffer: Buffer): string | null {
+  for (const { name, signature } of magicNumbers) {
+    if (buffer.length >= signature.length && signature.every((byte, i) => buffer[i] === byte)) {
+      return name;
+    }
+  }
+  return null;
+}
+
+// Function to decode UTF-16 text without its byte order mark
+function decodeUtf16(buffer: Buffer, bigEndian: boolean): string {
+  // A trailing odd byte can't be part of a UTF-16 code unit
+  const body = Buffer.from(buffer.subarray(2, buffer.length - (buffer.length % 2)));
+  return (bigEndian ? body.swap16() : body).toString('utf16le');
+}
+
+// Function to decode a file into text, or explain why it looks like binary data
+export function decodeText(buffer: Buffer, ext: string = '', latin1: boolean = false): DecodeResult {
+  if (binaryExtensions.includes(ext.toLowerCase())) {
+    return { binaryReason: `known binary extension (${ext.toLowerCase()})` };
+  }
+
+  // Byte order marks
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return { text: buffer.subarray(3).toString('utf8'), encoding: 'utf8-bom' };
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return { text: decodeUtf16(buffer, false), encoding: 'utf16le' };
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return { text: decodeUtf16(buffer, true), encoding: 'utf16be' };
+  }
+
+  const magicNumber = findMagicNumber(buffer);
+  if (magicNumber) {
+    return { binaryReason: `${magicNumber} signature` };
+  }
+
+  const sample = buffer.subarray(0, sampleSize);
+  if (sample.includes(0)) {
+    return { binaryReason: 'contains NUL bytes' };
+  }
+
+  // Tabs, line breaks, form feeds and escape sequences are common in text files; other control characters aren't
+  let controlCharacters = 0;
+  for (const byte of sample) {
+    if ((byte < 32 && ![9, 10, 12, 13, 27].includes(byte)) || byte === 127) {
+      controlCharacters++;
+    }
+  }
+  if (controlCharacters > sample.length * 0.1) {
+    return { binaryReason: 'too many control characters' };
+  }
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(buffer), encoding: 'utf8' };
+  } catch {
+    if (latin1) {
+      return { text: buffer.toString('latin1'), encoding: 'latin1' };
+    }
+    return { binaryReason: 'not valid UTF-8' };
+  }
+}
@@ -0,0 +1,36 @@
+import { SecretFinding } from './secrets.js';
+
+// Error thrown when writing would replace existing files and overwriting is not enabled
+export class OutputExistsError extends Error {
+  paths: string[];
+
+  constructor(paths: string[]) {
+    super(`Output file already exists: ${paths.join(', ')}`);
+    this.name = 'OutputExistsError';
+    this.paths = paths;
+  }
+}
+
+// Error thrown when secrets are found and the secrets mode is fail
+export class SecretsFoundError extends Error {
+  findings: SecretFinding[];
+
+  constructor(findings: SecretFinding[]) {
+    super(`Found ${findings.length} secret(s) in the files to archive`);
+    this.name = 'SecretsFoundError';
+    this.findings = findings;
+  }
+}
+
+// Error thrown when the configuration file can't be parsed or doesn't match the schema
+export class ConfigError extends Error {
+  file: string;
+  issues: string[];
+
+  constructor(file: string, issues: string[]) {
+    super(`Invalid configuration in ${file}:\n` + issues.map(issue => `  ${issue}`).join('\n'));
+    this.name = 'ConfigError';
+    this.file = file;
+    this.issues = issues;
+  }
+}
@@ -0,0 +1,259 @@
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { isMarkdownExtension } from './languages.js';
+import { OutputExistsError } from './errors.js';
+import { continuedInfo, instructionsEnd, instructionsStart, numberedInfo } from './formats.js';
+
+// Options accepted by extractArchive
+export interface ExtractOptions {
+  // Archive file, or any chunk of a chunked archive
+  archive: string;
+  // Target folder for extracted files (defaults to the current working directory)
+  target?: string;
+  // Overwrite existing files in the target folder
+  overwrite?: boolean;
+  // Parse the archive without writing any files
+  dryRun?: boolean;
+}
+
+// Extracted file interface
+export interface ExtractedFile {
+  path: string;
+  content: string;
+}
+
+const fileHeaderPrefix = '\n## File: ';
+// Headers of file sections, followed by those of outlines, converted files and diffs, which don't hold the file
+// content as it is
+const sectionHeaderPrefixes = [fileHeaderPrefix, '\n## Outline: ', '\n## Converted: ', '\n## Diff: '];
+const continuationNotice = '\n*File continues in next part*\n';
+const continuationHeaderRegex = /^\n## Continuation of (File|Outline|Converted|Diff): ([^\n]*) \(lines? [\d-]+\)\n\n/;
+const reopenedFenceRegex = /^```[^\n]*\n/;
+// Code block of a Markdown file that is reopened after the file is split inside it
+const reopenedMarkdownFenceRegex = new RegExp(`^ {0,3}(\`{3,}|~{3,})[^\\n]* ${continuedInfo}\\n`);
+// File details that --file-meta adds to the end of a file header
+const fileMetaRegex = / \(\d+ bytes, \d+ lines, modified [^\n]*\)$/;
+// Gutter of a line with a line number, or of the truncation marker, which has none
+const lineNumberGutterRegex = /^ *\d* \|(?: |(?=\r?\n|$))/gm;
+
+// Function to find the chunk files that make up an archive (e.g., name.01.md, name.02.md)
+export function getArchiveChunkPaths(archivePath: string): string[] {
+  const resolvedArchive = path.resolve(archivePath);
+  const ext = path.extname(resolvedArchive);
+  const dirName = path.dirname(resolvedArchive);
+  let baseName = path.basename(resolvedArchive, ext);
+
+  const chunkMatch = baseName.match(/^(.*)\.(\d{2,})$/);
+  if (chunkMatch) {
+    // A chunk was given, so start from the first chunk of the same archive
+    baseName = chunkMatch[1];
+  } else if (existsSync(resolvedArchive)) {
+    return [resolvedArchive];
+  }
+
+  const chunkPaths: string[] = [];
+  for (let index = 1; ; index++) {
+    const indexStr = index.toString().padStart(2, '0');
+    const chunkPath = path.join(dirName, `${baseName}.${indexStr}${ext}`);
+    if (!existsSync(chunkPath)) break;
+    chunkPaths.push(chunkPath);
+  }
+
+  if (chunkPaths.length === 0) {
+    throw new Error(`Archive not found: ${resolvedArchive}`);
+  }
+  return chunkPaths;
+}
+
+// Function to remove the instructions from the start and end of an archive chunk
+export function stripInstructions(chunk: string): string {
+  let content = chunk;
+  if (content.startsWith(instructionsStart + '\n')) {
+    const topEnd = content.indexOf(`\n${instructionsEnd}\n`);
+    if (topEnd !== -1) {
+      content = content.slice(topEnd + instructionsEnd.length + 2);
+    }
+  }
+  // The instructions at the end are separated from the content by a blank line
+  if (content.endsWith(`\n${instructionsEnd}\n`)) {
+    const bottomStart = content.lastIndexOf(`\n${instructionsStart}\n`);
+    if (bottomStart !== -1) {
+      content = content.slice(0, bottomStart);
+    }
+  }
+  return content;
+}
+
+// Function to join archive chunks back into a single stream, removing instructions and continuation markers
+export function joinArchiveChunks(chunks: string[]): string {
+  const parts = chunks.map(stripInstructions);
+
+  for (let i = 0; i < parts.length - 1; i++) {
+    const headerMatch = parts[i + 1].match(continuationHeaderRegex);
+    if (!parts[i].endsWith(continuationNotice) || !headerMatch) {
+      continue;
+    }
+
+    let current = parts[i].slice(0, -continuationNotice.length);
+    let next = parts[i + 1].slice(headerMatch[0].length);
+
+    // Code blocks are closed at the end of a part and reopened at the start of its continuation. Markdown files are
+    // included as they are, so only their code blocks marked as reopened were added.
+    const isMarkdown = headerMatch[1] === 'File' && isMarkdownExtension(path.extname(headerMatch[2]));
+    const fenceMatch = next.match(isMarkdown ? reopenedMarkdownFenceRegex : reopenedFenceRegex);
+    const closingFence = `${isMarkdown ? fenceMatch?.[1] : '```'}\n`;
+    if (fenceMatch && current.endsWith('\n' + closingFence)) {
+      current = current.slice(0, -closingFence.length);
+      next = next.slice(fenceMatch[0].length);
+    }
+
+    parts[i] = current;
+    parts[i + 1] = next;
+  }
+
+  return parts.join('');
+}
+
+// Function to find the next file, outline, converted file or diff header at or after a position
+function findSectionHeader(archive: string, from: number): number {
+  const headers = sectionHeaderPrefixes
+    .map(prefix => archive.indexOf(prefix, from))
+    .filter(index => index !== -1);
+  return headers.length === 0 ? -1 : Math.min(...headers);
+}
+
+// Function to get the prefix of the section header that starts at a position, if any
+function getSectionHeaderAt(archive: string, pos: number): string | undefined {
+  return sectionHeaderPrefixes.find(prefix => archive.startsWith(prefix, pos));
+}
+
+// Function to parse the files out of a txtzip Markdown archive
+export function parseArchive(archive: string): ExtractedFile[] {
+  const files: ExtractedFile[] = [];
+  let pos = findSectionHeader(archive, 0);
+
+  while (pos !== -1) {
+    // Outline, converted and diff sections are skipped, since they don't hold the file content as it is
+    const headerPrefix = getSectionHeaderAt(archive, pos)!;
+    const isSkipped = headerPrefix !== fileHeaderPrefix;
+    const headerPrefixLength = headerPrefix.length;
+    const headerEnd = archive.indexOf('\n\n', pos + headerPrefixLength);
+    if (headerEnd === -1) {
+      throw new Error(`Malformed file header at offset ${pos}`);
+    }
+    const filePath = archive.slice(pos + headerPrefixLength, headerEnd).replace(fileMetaRegex, '');
+    const bodyStart = headerEnd + 2;
+    const ext = path.extname(filePath).toLowerCase();
+    const isMarkdown = !isSkipped && isMarkdownExtension(ext);
+
+    if (isMarkdown) {
+      // Markdown files are included as-is followed by a newline, so they end at the next file header
+      let nextHeader = findSectionHeader(archive, bodyStart + 1);
+      while (nextHeader !== -1 && archive[nextHeader - 1] !== '\n') {
+        nextHeader = findSectionHeader(archive, nextHeader + 1);
+      }
+      const bodyEnd = nextHeader === -1 ? archive.length : nextHeader;
+      files.push({ path: filePath, content: archive.slice(bodyStart, bodyEnd - 1) });
+      pos = nextHeader;
+      continue;
+    }
+
+    if (!archive.startsWith('```', bodyStart)) {
+      throw new Error(`Missing code block for file: ${filePath}`);
+    }
+    const contentStart = archive.indexOf('\n', bodyStart) + 1;
+
+    // The closing fence is the one followed by the next file header or the end of the archive
+    let fenceEnd = archive.indexOf('\n```\n', contentStart);
+    while (fenceEnd !== -1) {
+      const afterFence = fenceEnd + 5;
+      if (afterFence === archive.length || getSectionHeaderAt(archive, afterFence)) {
+        break;
+      }
+      fenceEnd = archive.indexOf('\n```\n', fenceEnd + 1);
+    }
+    if (contentStart === 0 || fenceEnd === -1) {
+      throw new Error(`Unterminated code block for file: ${filePath}`);
+    }
+
+    if (!isSkipped) {
+      // Line numbers are marked in the info string of the code block
+      const infoWords = archive.slice(bodyStart + 3, contentStart - 1).trim().split(/\s+/);
+      const content = archive.slice(contentStart, fenceEnd);
+      files.push({
+        path: filePath,
+        content: infoWords.includes(numberedInfo) ? content.replace(lineNumberGutterRegex, '') : content,
+      });
+    }
+    pos = findSectionHeader(archive, fenceEnd + 5);
+  }
+
+  return files;
+}
+
+// Function to resolve an archived path inside the target folder, refusing paths that escape it
+function resolveExtractPath(targetFolder: string, archivedPath: string): string {
+  const parts = archivedPath.split(/[\\/]+/).filter(part => part !== '' && part !== '.');
+  const resolvedPath = path.resolve(targetFolder, ...parts);
+  const relativePath = path.relative(targetFolder, resolvedPath);
+
+  if (
+    parts.length === 0 ||
+    path.isAbsolute(archivedPath) ||
+    relativePath.startsWith('..') ||
+    path.isAbsolute(relativePath)
+  ) {
+    throw new Error(`Refusing to extract outside the target folder: ${archivedPath}`);
+  }
+  return resolvedPath;
+}
+
+// Extracted file with the path it is written to
+export interface ExtractedFileTarget extends ExtractedFile {
+  outputPath: string;
+}
+
+// Result of extracting an archive
+export interface ExtractResult {
+  // Archive files that were read, in order
+  chunkPaths: string[];
+  // Files found in the archive
+  files: ExtractedFileTarget[];
+}
+
+// Function to extract files from a txtzip Markdown archive into the target folder
+export async function extractArchive(options: ExtractOptions): Promise<ExtractResult> {
+  const chunkPaths = getArchiveChunkPaths(options.archive);
+  const chunks = await Promise.all(chunkPaths.map(chunkPath => readFile(chunkPath, 'utf8')));
+
+  // Only the Markdown format can be extracted
+  if (/^\s*(\[|<documents>|=== (File|Instructions|Deleted))/.test(chunks[0])) {
+    throw new Error(`Not a Markdown archive: ${chunkPaths[0]}`);
+  }
+  const resolvedTargetFolder = path.resolve(options.target ?? '.');
+
+  const files = parseArchive(joinArchiveChunks(chunks)).map(file => ({
+    ...file,
+    outputPath: resolveExtractPath(resolvedTargetFolder, file.path),
+  }));
+
+  if (options.dryRun) {
+    return { chunkPaths, files };
+  }
+
+  // Check for existing files before writing anything
+  if (!options.overwrite) {
+    const existing = files.filter(file => existsSync(file.outputPath));
+    if (existing.length > 0) {
+      throw new OutputExistsError(existing.map(file => file.outputPath));
+    }
+  }
+
+  for (const file of files) {
+    await mkdir(path.dirname(file.outputPath), { recursive: true });
+    await writeFile(file.outputPath, file.content, 'utf8');
+  }
+
+  return { chunkPaths, files };
+}
@@ -0,0 +1,581 @@
+import { readdir, stat, readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { minimatch } from 'minimatch';
+import { ArchiveOptions, ResolvedArchiveOptions, resolveArchiveOptions } from './options.js';
+import { sourceCodeExtensions } from './languages.js';
+import {
+  IgnoreFileReader,
+  IgnoreRules,
+  addDirectoryIgnoreRules,
+  findGitRoot,
+  isIgnored,
+  loadIgnoreRules,
+} from './ignore.js';
+import { FileCommit, getGitDiff, getGitFiles, getLastCommit, hasGitSelection } from './git.js';
+import { decodeText } from './encoding.js';
+import { getGeneratedReason } from './generated.js';
+import { SecretFinding, redactSecrets, scanDiffSecrets, scanSecrets } from './secrets.js';
+import { SecretsFoundError } from './errors.js';
+import { getFileTransforms, transformContent } from './transforms.js';
+import { outlineSource, shouldOutline } from './outline.js';
+import { ConverterName, convertContent, getFileConverter } from './converters.js';
+import { UnresolvedImport, collectImportClosure } from './imports.js';
+import { SourceRoot, isInsideFolder } from './roots.js';
+import { orderFiles } from './order.js';
+import { mapConcurrently } from './concurrency.js';
+import { SourceArchive, SourceArchiveEntry, getSourceArchiveText, isSourceArchive, readSourceArchive } from './unpack.js';
+
+// Details of a file shown in its header
+export interface FileMeta {
+  // Size of the file on disk in bytes
+  size: number;
+  // Number of lines of the file on disk
+  lines: number;
+  // Last modification time in ISO 8601 format
+  modified: string;
+  // Last commit that changed the file, when it is committed to a git repository
+  commit?: FileCommit;
+}
+
+// A text file collected from the source folder
+export interface ArchiveFile {
+  // Absolute path of the file
+  path: string;
+  // Path relative to the source folder, used in the archive headers
+  relativePath: string;
+  // Text content of the file
+  content: string;
+  // Unified diff of the file, when diffs are requested
+  diff?: string;
+  // Whether the content was cut down to head and tail excerpts to fit the maximum file size
+  truncated?: boolean;
+  // Whether the content is an outline of the declarations, with function bodies elided
+  outlined?: boolean;
+  // Converter that turned the content into compact text, such as a notebook into its cells
+  converted?: ConverterName;
+  // Language of the converted content, used instead of the one from the extension
+  language?: string;
+  // Secrets redacted from the content
+  secrets?: SecretFinding[];
+  // Size, line count, modification time and last commit of the file, when file metadata is requested
+  meta?: FileMeta;
+}
+
+// Why a file was left out of the archive
+export type SkippedFileKind = 'binary' | 'generated' | 'size' | 'secret' | 'unreadable';
+
+// A file left out of the archive
+export interface SkippedFile {
+  // Path relative to the source folder
+  relativePath: string;
+  kind: SkippedFileKind;
+  // Details of why the file was skipped
+  reason: string;
+  // Secrets found in the file, when it was skipped because of them
+  secrets?: SecretFinding[];
+}
+
+// A source folder with the options and ignore rules its files are archived with
+export interface RootContext {
+  root: SourceRoot;
+  // The archive options, with the source folder and the entry files narrowed to this root
+  options: ResolvedArchiveOptions;
+  rules: IgnoreRules;
+  // Files of the file list inside this root, when the files are listed
+  listedFiles?: string[];
+  // Entries of the root, when it is a .zip or .tar(.gz) file instead of a folder
+  sourceArchive?: SourceArchive;
+}
+
+// Function to check if a file is binary or text
+export function isBinaryFile(contentBuffer: Buffer, ext: string = ''): boolean {
+  return 'binaryReason' in decodeText(contentBuffer, ext);
+}
+
+// Function to check if a read file was skipped instead of archived
+export function isSkippedFile(file: ArchiveFile | SkippedFile): file is SkippedFile {
+  return 'reason' in file;
+}
+
+// Function to determine if a pattern is recursive
+function isPatternRecursive(pattern: string): boolean {
+  return !pattern.includes('/') && !pattern.includes('\\');
+}
+
+// Function to check a relative path against the source-only, include and exclude filters
+function matchesFilters(relativePath: string, options: ResolvedArchiveOptions): boolean {
+  // If source-only flag is set, filter by source code extensions
+  if (options.sourceOnly) {
+    const ext = path.extname(relativePath).toLowerCase();
+    if (!sourceCodeExtensions.includes(ext)) {
+      return false;
+    }
+  }
+
+  let includeMatch = options.include.length === 0;
+
+  // Apply include patterns
+  for (const pattern of options.include) {
+    const isRecursive = isPatternRecursive(pattern);
+    if (minimatch(relativePath, pattern, { matchBase: isRecursive })) {
+      includeMatch = true;
+      break;
+    }
+  }
+
+  // Apply exclude patterns
+  for (const pattern of options.exclude) {
+    if (minimatch(relativePath, pattern)) {
+      return false;
+    }
+  }
+
+  return includeMatch;
+}
+
+// Recursive function to traverse directories and return a list of files
+export async function getFilesRecursively(
+  dir: string,
+  rules: IgnoreRules,
+  options: ResolvedArchiveOptions
+): Promise<string[]> {
+  let files: string[] = [];
+  const entries = await readdir(dir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    const relativePath = path.relative(options.source, fullPath);
+
+    // Check against the .gitignore and .txtzipignore rules
+    if (isIgnored(rules, fullPath, entry.isDirectory())) {
+      continue;
+    }
+
+    if (entry.isDirectory()) {
+      // Nested ignore files only apply to their own folder
+      const directoryRules = await addDirectoryIgnoreRules(fullPath, rules);
+      files = files.concat(await getFilesRecursively(fullPath, directoryRules, options));
+    } else if (matchesFilters(relativePath, options)) {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
+}
+
+// Function to create a lookup of the rules of the folders below the source folder, which returns null for
+// a folder that is ignored or is inside an ignored folder
+export function createDirectoryRulesLookup(
+  rules: IgnoreRules,
+  sourceFolder: string,
+  readIgnoreFile?: IgnoreFileReader
+): (dir: string) => Promise<IgnoreRules | null> {
+  const directoryRules = new Map<string, IgnoreRules | null>([[sourceFolder, rules]]);
+
+  const getDirectoryRules = async (dir: string): Promise<IgnoreRules | null> => {
+    if (!directoryRules.has(dir)) {
+      const parentRules = await getDirectoryRules(path.dirname(dir));
+      directoryRules.set(
+        dir,
+        parentRules && !isIgnored(parentRules, dir, true)
+          ? await addDirectoryIgnoreRules(dir, parentRules, readIgnoreFile)
+          : null
+      );
+    }
+    return directoryRules.get(dir) ?? null;
+  };
+  return getDirectoryRules;
+}
+
+// Function to apply the ignore rules and filters to an explicit list of files
+export async function filterCandidateFiles(
+  candidates: string[],
+  rules: IgnoreRules,
+  options: ResolvedArchiveOptions
+): Promise<string[]> {
+  const getDirectoryRules = createDirectoryRulesLookup(rules, options.source);
+
+  const files: string[] = [];
+  for (const file of candidates) {
+    const relativePath = path.relative(options.source, file);
+    if (relativePath.startsWith('..') || path.isAbsolute(relativePath) || !existsSync(file)) {
+      continue;
+    }
+
+    const fileRules = await getDirectoryRules(path.dirname(file));
+    if (fileRules && !isIgnored(fileRules, file, false) && matchesFilters(relativePath, options)) {
+      files.push(file);
+    }
+  }
+  return files;
+}
+
+// Function to list the entries of a source archive that pass the ignore rules and filters, in the archive order.
+// The ignore files of the archive apply to its entries like those of a folder.
+export async function getSourceArchiveFiles(
+  sourceArchive: SourceArchive,
+  rules: IgnoreRules,
+  options: ResolvedArchiveOptions
+): Promise<string[]> {
+  const getDirectoryRules = createDirectoryRulesLookup(
+    rules,
+    options.source,
+    async filePath => getSourceArchiveText(sourceArchive, filePath)
+  );
+
+  const files: string[] = [];
+  for (const file of sourceArchive.entries.keys()) {
+    const fileRules = await getDirectoryRules(path.dirname(file));
+    if (fileRules && !isIgnored(fileRules, file, false) && matchesFilters(path.relative(options.source, file), options)) {
+      files.push(file);
+    }
+  }
+  return orderFiles(files, options.source, options.order, options.priority, async file => {
+    const entry = sourceArchive.entries.get(file)!;
+    return { size: entry.data.length, mtimeMs: entry.modified.getTime() };
+  });
+}
+
+// Function to read all of stdin as text
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+// Function to read a newline- or NUL-separated list of files from a file or stdin ('-'), as absolute paths
+export async function readFileList(filesFrom: string, sourceFolders: string | string[]): Promise<string[]> {
+  const content = filesFrom === '-' ? await readStdin() : await readFile(filesFrom, 'utf8');
+  const entries = content.includes('\0') ? content.split('\0') : content.split(/\r?\n/);
+  const files: string[] = [];
+
+  for (const entry of entries.filter(Boolean)) {
+    // Paths are relative to the current working directory, like the output of git ls-files, rg -l or fd
+    const file = path.resolve(entry);
+    if (![sourceFolders].flat().some(sourceFolder => isInsideFolder(file, sourceFolder))) {
+      throw new Error(`Listed file is outside the source folder: ${entry}`);
+    }
+    if (!existsSync(file)) {
+      throw new Error(`Listed file not found: ${entry}`);
+    }
+    files.push(file);
+  }
+
+  return [...new Set(files)];
+}
+
+// Function to list the files to archive, from the entry files' imports, the file list, the git selection or the
+// directory walk, in the archive order, adding the imports that were not followed to unresolvedImports if given.
+// Files already read from the file list can be passed as listedFiles.
+export async function getCandidateFiles(
+  rules: IgnoreRules,
+  options: ResolvedArchiveOptions,
+  unresolvedImports?: UnresolvedImport[],
+  listedFiles?: string[]
+): Promise<string[]> {
+  if (!options.filesFrom && !hasGitSelection(options) && options.entry.length === 0) {
+    const files = await getFilesRecursively(options.source, rules, options);
+    return orderFiles(files, options.source, options.order, options.priority);
+  }
+
+  let candidates: string[] | null = null;
+  if (options.entry.length > 0) {
+    const closure = await collectImportClosure(options.entry, options.source, options.depth);
+    unresolvedImports?.push(...closure.unresolved);
+    candidates = closure.files;
+  } else if (options.filesFrom) {
+    candidates = listedFiles ?? await readFileList(options.filesFrom, options.source);
+  }
+  if (hasGitSelection(options)) {
+    const gitFiles = await getGitFiles(options.source, options);
+    const gitFileSet = new Set(gitFiles);
+    candidates = candidates ? candidates.filter(file => gitFileSet.has(file)) : gitFiles;
+  }
+  const files = await filterCandidateFiles(candidates ?? [], rules, options);
+  return orderFiles(files, options.source, options.order, options.priority);
+}
+
+// Function to prepare each source folder for archiving, with its own options and ignore rules. The file list is read
+// once and split between the folders, and in entry mode, folders without entry files are left out.
+export async function getRootContexts(options: ResolvedArchiveOptions): Promise<RootContext[]> {
+  const listedFiles = options.filesFrom ? await readFileList(options.filesFrom, options.roots.map(root => root.path)) : null;
+
+  // A single source folder reports its own errors for entry files outside of it
+  const strayEntry = options.roots.length > 1
+    ? options.entry.find(entry => !options.roots.some(root => isInsideFolder(entry, root.path)))
+    : undefined;
+  if (strayEntry) {
+    throw new Error(`Entry file is outside the source folders: ${strayEntry}`);
+  }
+
+  const contexts: RootContext[] = [];
+  for (const root of options.roots) {
+    const entry = options.roots.length > 1
+      ? options.entry.filter(entryFile => isInsideFolder(entryFile, root.path))
+      : options.entry;
+    if (options.entry.length > 0 && entry.length === 0) {
+      continue;
+    }
+
+    // Source archives are read once, and their ignore files are read from their entries
+    const sourceArchive = isSourceArchive(root.path) ? await readSourceArchive(root.path) : null;
+    const rules = sourceArchive
+      ? await loadIgnoreRules(root.path, options.defaultIgnores, async filePath => getSourceArchiveText(sourceArchive, filePath))
+      : await loadIgnoreRules(root.path, options.defaultIgnores);
+
+    contexts.push({
+      root,
+      options: { ...options, source: root.path, roots: [root], entry },
+      rules,
+      ...(listedFiles ? { listedFiles: listedFiles.filter(file => isInsideFolder(file, root.path)) } : {}),
+      ...(sourceArchive ? { sourceArchive } : {}),
+    });
+  }
+  return contexts;
+}
+
+// Function to prefix the paths of a file read from a source folder with the folder's label
+export function addRootLabel<T extends ArchiveFile | SkippedFile | UnresolvedImport>(file: T, root: SourceRoot): T {
+  if (!root.label) {
+    return file;
+  }
+  const secrets = 'secrets' in file && file.secrets
+    ? { secrets: file.secrets.map(finding => ({ ...finding, relativePath: path.join(root.label, finding.relativePath) })) }
+    : {};
+  return { ...file, relativePath: path.join(root.label, file.relativePath), ...secrets };
+}
+
+// Marker that takes the place of the lines omitted by truncateContent, with the number of omitted lines
+export const truncationMarkerRegex = /^\.\.\. \[truncated by txtzip: (\d+) line\(s\), \d+ bytes omitted\] \.\.\.$/;
+
+// Function to cut text down to whole-line head and tail excerpts of about maxBytes, with a marker in between
+export function truncateContent(content: string, maxBytes: number): string {
+  const lines = content.split(/(?<=\n)/);
+  let headCount = 0;
+  let headBytes = 0;
+  while (headCount < lines.length && headBytes + Buffer.byteLength(lines[headCount], 'utf8') <= maxBytes / 2) {
+    headBytes += Buffer.byteLength(lines[headCount], 'utf8');
+    headCount++;
+  }
+
+  let tailStart = lines.length;
+  let tailBytes = 0;
+  while (tailStart > headCount && headBytes + tailBytes + Buffer.byteLength(lines[tailStart - 1], 'utf8') <= maxBytes) {
+    tailStart--;
+    tailBytes += Buffer.byteLength(lines[tailStart], 'utf8');
+  }
+
+  const omitted = lines.slice(headCount, tailStart).join('');
+  const omittedLines = tailStart - headCount;
+  const head = lines.slice(0, headCount).join('');
+  const marker = `... [truncated by txtzip: ${omittedLines} line(s), ${Buffer.byteLength(omitted, 'utf8')} bytes omitted] ...\n`;
+  return head + (head === '' || head.endsWith('\n') ? '' : '\n') + marker + lines.slice(tailStart).join('');
+}
+
+// Function to drop the files past the total size limit, adding them to skipped
+export function applyTotalSizeLimit(
+  files: ArchiveFile[],
+  options: ResolvedArchiveOptions,
+  skipped?: SkippedFile[]
+): ArchiveFile[] {
+  if (options.maxTotalSize <= 0) {
+    return files;
+  }
+
+  const kept: ArchiveFile[] = [];
+  let totalSize = 0;
+  for (const file of files) {
+    const size = Buffer.byteLength(file.content, 'utf8');
+    if (totalSize + size > options.maxTotalSize) {
+      skipped?.push({
+        relativePath: file.relativePath,
+        kind: 'size',
+        reason: `over the maximum total size (${options.maxTotalSize} bytes)`,
+      });
+      continue;
+    }
+    totalSize += size;
+    kept.push(file);
+  }
+  return kept;
+}
+
+// Function to add the last commit of a file to its details, if the source folder is in a git repository
+async function addLastCommit(meta: FileMeta, file: string, options: ResolvedArchiveOptions): Promise<FileMeta> {
+  const commit = findGitRoot(options.source) ? await getLastCommit(options.source, file) : null;
+  return commit ? { ...meta, commit } : meta;
+}
+
+// Function to list the secrets found in the archived and skipped files
+export function getSecretFindings(files: ArchiveFile[], skipped: SkippedFile[]): SecretFinding[] {
+  return [...files, ...skipped]
+    .flatMap(file => file.secrets ?? [])
+    .sort((a, b) => a.relativePath.localeCompare(b.relativePath) || (a.line ?? 0) - (b.line ?? 0));
+}
+
+// Function to throw if secrets were found and the secrets mode is fail
+export function assertNoSecrets(findings: SecretFinding[], options: ResolvedArchiveOptions): void {
+  if (options.secrets === 'fail' && findings.length > 0) {
+    throw new SecretsFoundError(findings);
+  }
+}
+
+// Function to read a file for the archive, returning a skipped entry for files left out or null if it isn't a regular file.
+// The entry of a source archive the file comes from is read in its place.
+export async function readArchiveFile(
+  file: string,
+  options: ResolvedArchiveOptions,
+  entry?: SourceArchiveEntry
+): Promise<ArchiveFile | SkippedFile | null> {
+  const fileStats = entry ? { size: entry.data.length, mtime: entry.modified, isFile: () => true } : await stat(file);
+  const relativePath = path.relative(options.source, file);
+
+  // Only consider regular files
+  if (!fileStats.isFile()) {
+    return null;
+  }
+
+  // Entries of a source archive that are encrypted or corrupt are reported instead of failing the run
+  if (entry?.error) {
+    return { relativePath, kind: 'unreadable', reason: entry.error };
+  }
+
+  // Skip files over the size limit without reading them, unless they are truncated
+  if (options.maxFileSize > 0 && fileStats.size > options.maxFileSize && !options.truncate) {
+    return {
+      relativePath,
+      kind: 'size',
+      reason: `larger than the maximum file size (${fileStats.size} > ${options.maxFileSize} bytes)`,
+    };
+  }
+
+  const contentBuffer = entry ? entry.data : await readFile(file);
+  const decoded = decodeText(contentBuffer, path.extname(file), options.latin1);
+
+  // Skip binary files
+  if ('binaryReason' in decoded) {
+    return { relativePath, kind: 'binary', reason: decoded.binaryReason };
+  }
+
+  let content = decoded.text;
+
+  // Details of the file as it is on disk, before it is outlined or transformed
+  const meta: FileMeta | null = options.fileMeta
+    ? {
+      size: fileStats.size,
+      lines: (content.match(/[^\n]*\n|[^\n]+$/g) ?? []).length,
+      modified: fileStats.mtime.toISOString().replace(/\.\d{3}Z$/, 'Z'),
+    }
+    : null;
+
+  // Convert notebooks, data files and SVGs to compact text; files that fail to convert are kept as they are
+  const converter = options.convert ? getFileConverter(relativePath, fileStats.size, options.converters) : null;
+  const converted = converter ? convertContent(relativePath, content, converter) : null;
+  if (converted) {
+    content = converted.content;
+  }
+
+  // Skip minified and generated files
+  const generatedReason = options.skipGenerated ? getGeneratedReason(relativePath, content) : null;
+  if (generatedReason) {
+    return { relativePath, kind: 'generated', reason: generatedReason };
+  }
+
+  // Replace the content with an outline of its declarations; files that don't parse are kept in full
+  let outlined = false;
+  if (shouldOutline(relativePath, options.outline)) {
+    const outline = await outlineSource(relativePath, content);
+    if (outline !== null) {
+      content = outline;
+      outlined = true;
+    }
+  }
+
+  // Strip empty lines and comments and compact indentation as set for the file
+  content = transformContent(relativePath, content, getFileTransforms(relativePath, options, options.transforms));
+
+  // Look for secrets before anything is written, in the diff of the file as well as its content. The content is scanned
+  // as it is on disk, so the lines of the findings can be looked up in the file.
+  let diff = options.withDiff ? await getGitDiff(options.source, file, options) : undefined;
+  let secrets: SecretFinding[] = [];
+  if (options.secrets !== 'off') {
+    const scan = scanSecrets(relativePath, decoded.text, options.secretRules);
+    // A file whose name marks it as sensitive is never archived, even when redacting
+    const isSensitiveFile = scan.findings.some(finding => finding.line === undefined);
+    const diffScan = diff !== undefined && !isSensitiveFile
+      ? scanDiffSecrets(relativePath, diff, options.secretRules)
+      : null;
+    secrets = [...scan.findings, ...(diffScan?.findings ?? [])];
+
+    if (secrets.length > 0 && (options.secrets !== 'redact' || isSensitiveFile)) {
+      return {
+        relativePath,
+        kind: 'secret',
+        reason: isSensitiveFile ? 'sensitive file name' : `contains ${secrets.length} secret(s)`,
+        secrets,
+      };
+    }
+    // Outlined, stripped and converted content is redacted on its own
+    content = content === decoded.text ? scan.redacted : redactSecrets(content, options.secretRules);
+    diff = diffScan?.redacted ?? diff;
+  }
+
+  const truncated = options.truncate && Buffer.byteLength(content, 'utf8') > options.maxFileSize;
+  if (truncated) {
+    content = truncateContent(content, options.maxFileSize);
+  }
+
+  return {
+    path: file,
+    relativePath,
+    content,
+    ...(truncated ? { truncated } : {}),
+    ...(outlined ? { outlined } : {}),
+    ...(converted ? { converted: converter!.converter, language: converted.language } : {}),
+    ...(secrets.length > 0 ? { secrets } : {}),
+    ...(diff !== undefined ? { diff } : {}),
+    ...(meta ? { meta: entry ? meta : await addLastCommit(meta, file, options) } : {}),
+  };
+}
+
+// Function to collect the text files to archive from the source folders, adding the files left out to skipped and
+// the imports that were not followed to unresolvedImports if given
+export async function collectFiles(
+  options: ArchiveOptions = {},
+  skipped?: SkippedFile[],
+  unresolvedImports?: UnresolvedImport[]
+): Promise<ArchiveFile[]> {
+  const resolvedOptions = resolveArchiveOptions(options);
+  const files: ArchiveFile[] = [];
+  const skippedFiles: SkippedFile[] = [];
+
+  // Files are grouped by source folder, in the order the folders were given
+  for (const { root, options: rootOptions, rules, listedFiles, sourceArchive } of await getRootContexts(resolvedOptions)) {
+    const rootImports: UnresolvedImport[] = [];
+    const allFiles = sourceArchive
+      ? await getSourceArchiveFiles(sourceArchive, rules, rootOptions)
+      : await getCandidateFiles(rules, rootOptions, rootImports, listedFiles);
+    unresolvedImports?.push(...rootImports.map(entry => addRootLabel(entry, root)));
+
+    // Files are read a few at a time, and kept in the archive order
+    const archiveFiles = await mapConcurrently(
+      allFiles,
+      resolvedOptions.concurrency,
+      file => readArchiveFile(file, rootOptions, sourceArchive?.entries.get(file))
+    );
+    for (const archiveFile of archiveFiles) {
+      if (archiveFile && isSkippedFile(archiveFile)) {
+        skippedFiles.push(addRootLabel(archiveFile, root));
+      } else if (archiveFile) {
+        files.push(addRootLabel(archiveFile, root));
+      }
+    }
+  }
+
+  assertNoSecrets(getSecretFindings(files, skippedFiles), resolvedOptions);
+  skipped?.push(...skippedFiles);
+  return applyTotalSizeLimit(files, resolvedOptions, skipped);
+}
@@ -0,0 +1,308 @@
+import path from 'path';
+import { isMarkdownExtension } from './languages.js';
+import { UnresolvedImport, formatUnresolvedImports } from './imports.js';
+import type { FileMeta } from './files.js';
+import { SnapshotChanges, formatSnapshotChanges } from './snapshot.js';
+
+// Output formats supported by the archive renderer
+export const outputFormats = ['markdown', 'xml', 'json', 'text'] as const;
+
+export type OutputFormat = typeof outputFormats[number];
+
+// Kind of section rendered for a file: its content, an outline of its declarations, its content converted to compact
+// text, or its unified diff
+export type FilePartKind = 'file' | 'outline' | 'converted' | 'diff';
+
+// A file, or one part of a file that is split across chunks
+export interface FilePart {
+  // Whether this is the content, the outline or the diff of the file
+  kind: FilePartKind;
+  // Path relative to the source folder
+  path: string;
+  // 1-based position of the file in the archive
+  index: number;
+  // Language identifier from the file extension (may be empty)
+  language: string;
+  // Size of the whole file content in bytes
+  size: number;
+  // Content of this part; every part except the last ends with a newline
+  content: string;
+  // 1-based line range covered by this part
+  startLine: number;
+  endLine: number;
+  // Whether this is the first or last part of the file (both are true for a file that isn't split)
+  isFirstPart: boolean;
+  isLastPart: boolean;
+  // Whether the lines of the content are prefixed with their line numbers
+  numbered: boolean;
+  // Details of the file for the header of its first part, when file metadata is requested
+  meta?: FileMeta;
+  // For a Markdown file split inside a fenced code block: the opening line of the block this part starts inside,
+  // and the fence of the block it ends inside
+  reopenedFence?: string;
+  closedFence?: string;
+}
+
+// Formatter used to render the sections of an archive
+export interface ArchiveFormatter {
+  // Default output file name for the format
+  defaultOutput: string;
+  // Text at the start and end of every chunk
+  chunkHeader: string;
+  chunkFooter: string;
+  // Function to render the file structure section
+  renderTree(tree: string, isFirstInChunk: boolean): string;
+  // Function to render the list of external packages and unresolved imports
+  renderImports(imports: UnresolvedImport[], isFirstInChunk: boolean): string;
+  // Function to render the files deleted and renamed since the manifest of a delta archive
+  renderChanges(changes: SnapshotChanges, isFirstInChunk: boolean): string;
+  // Function to render a file or one part of a split file
+  renderFilePart(part: FilePart, isFirstInChunk: boolean): string;
+  // Function to render the instructions from the templates and part preambles at the start or end of a chunk
+  renderInstructions(text: string, isFirstInChunk: boolean): string;
+}
+
+// Function to format a 1-based line range for continuation headers
+export function formatLineRange(firstLine: number, lastLine: number): string {
+  return firstLine === lastLine ? `line ${firstLine}` : `lines ${firstLine}-${lastLine}`;
+}
+
+// Function to format the details of a file for its header, e.g.,
+// `1204 bytes, 48 lines, modified 2026-10-01T09:30:00Z, commit 1a2b3c4 by Jane Doe on 2026-09-30T17:02:11+02:00`
+export function formatFileMeta(meta: FileMeta): string {
+  let text = `${meta.size} bytes, ${meta.lines} lines, modified ${meta.modified}`;
+  if (meta.commit) {
+    text += `, commit ${meta.commit.hash.slice(0, 7)} by ${meta.commit.author} on ${meta.commit.date}`;
+  }
+  return text;
+}
+
+// Function to escape text for XML element content and attribute values
+export function escapeXml(text: string): string {
+  return text
+    // Characters that are not allowed in XML 1.0 documents
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f\ufffe\uffff]/g, '\ufffd')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const continuationNotice = '\n*File continues in next part*\n';
+
+// Lines around the instructions in Markdown archives, so they can be told apart from the files when extracting
+export const instructionsStart = '<!-- txtzip:instructions -->';
+export const instructionsEnd = '<!-- /txtzip:instructions -->';
+
+// Word added to the info string of code blocks with numbered lines
+export const numberedInfo = 'line-numbers';
+
+// Word added to the info string of a code block in a Markdown file that is reopened after the file is split inside it
+export const continuedInfo = 'continued';
+
+// Labels of the section headers of each kind of file part
+const sectionLabels: { [key in FilePartKind]: string } = {
+  file: 'File',
+  outline: 'Outline',
+  converted: 'Converted',
+  diff: 'Diff',
+};
+
+// Markdown: `## File:` headers with content wrapped in fenced code blocks
+const markdownFormatter: ArchiveFormatter = {
+  defaultOutput: './txtzip.md',
+  chunkHeader: '',
+  chunkFooter: '',
+
+  renderTree(tree, isFirstInChunk) {
+    return (isFirstInChunk ? '' : '\n') + '## File Structure\n\n```plaintext\n' + tree + '\n```\n';
+  },
+
+  renderImports(imports, isFirstInChunk) {
+    return (isFirstInChunk ? '' : '\n') + '## Imports\n\n```plaintext\n' + formatUnresolvedImports(imports) + '\n```\n';
+  },
+
+  renderChanges(changes, isFirstInChunk) {
+    return (isFirstInChunk ? '' : '\n')
+      + '## Deleted and Renamed Files\n\n```plaintext\n' + formatSnapshotChanges(changes) + '\n```\n';
+  },
+
+  renderInstructions(text, isFirstInChunk) {
+    return (isFirstInChunk ? '' : '\n') + `${instructionsStart}\n${text}\n${instructionsEnd}\n`;
+  },
+
+  renderFilePart(part) {
+    let content = part.content;
+    const label = sectionLabels[part.kind];
+    const metaSuffix = part.meta ? ` (${formatFileMeta(part.meta)})` : '';
+    const fileHeader = part.isFirstPart
+      ? `\n## ${label}: ${part.path}${metaSuffix}\n\n`
+      : `\n## Continuation of ${label}: ${part.path} (${formatLineRange(part.startLine, part.endLine)})\n\n`;
+
+    if (part.kind === 'file' && isMarkdownExtension(path.extname(part.path))) {
+      // Include content as-is for Markdown files, closing and reopening a code block the file is split inside
+      const reopened = part.reopenedFence ? `${part.reopenedFence} ${continuedInfo}\n` : '';
+      const closed = part.closedFence ? `${part.closedFence}\n` : '';
+      return fileHeader + reopened + content + closed + (part.isLastPart ? '\n' : continuationNotice);
+    }
+
+    if (!part.isLastPart) {
+      // Parts before the last one always end with a newline, which the closing fence takes the place of
+      content = content.slice(0, -1);
+    }
+
+    // Wrap content in code block for other files, closing and reopening it around each split; numbered lines are
+    // marked in the info string, so they can be told apart from content that looks the same
+    const infoString = part.numbered ? `${part.language || 'plaintext'} ${numberedInfo}` : part.language;
+    return fileHeader + `\`\`\`${infoString}\n${content}\n\`\`\`\n` + (part.isLastPart ? '' : continuationNotice);
+  },
+};
+
+// XML: `<document>` elements with a `<source>` path and escaped `<document_content>`
+const xmlFormatter: ArchiveFormatter = {
+  defaultOutput: './txtzip.xml',
+  chunkHeader: '<documents>\n',
+  chunkFooter: '</documents>\n',
+
+  renderTree(tree) {
+    return `<file_structure>\n${escapeXml(tree)}\n</file_structure>\n`;
+  },
+
+  renderImports(imports) {
+    return `<imports>\n${escapeXml(formatUnresolvedImports(imports))}\n</imports>\n`;
+  },
+
+  renderChanges(changes) {
+    return `<changes>\n${escapeXml(formatSnapshotChanges(changes))}\n</changes>\n`;
+  },
+
+  renderInstructions(text) {
+    return `<instructions>\n${escapeXml(text)}\n</instructions>\n`;
+  },
+
+  renderFilePart(part) {
+    let attributes = `index="${part.index}"`;
+    if (part.kind !== 'file') {
+      attributes += ` type="${part.kind}"`;
+    }
+    if (!part.isFirstPart || !part.isLastPart) {
+      attributes += ` lines="${part.startLine}-${part.endLine}"`;
+    }
+    if (!part.isLastPart) {
+      attributes += ' continues="true"';
+    }
+    if (part.numbered) {
+      attributes += ' line_numbers="true"';
+    }
+    if (part.meta) {
+      attributes += ` size="${part.meta.size}" line_count="${part.meta.lines}" modified="${part.meta.modified}"`;
+      if (part.meta.commit) {
+        const { hash, author, date } = part.meta.commit;
+        attributes += ` commit="${hash}" author="${escapeXml(author)}" commit_date="${date}"`;
+      }
+    }
+
+    return (
+      `<document ${attributes}>\n` +
+      `<source>${escapeXml(part.path)}</source>\n` +
+      `<document_content>${escapeXml(part.content)}</document_content>\n` +
+      '</document>\n'
+    );
+  },
+};
+
+// JSON: an array of `{path, language, size, content}` objects in every chunk
+const jsonFormatter: ArchiveFormatter = {
+  defaultOutput: './txtzip-archive.json',
+  chunkHeader: '[\n',
+  chunkFooter: '\n]\n',
+
+  renderTree(tree, isFirstInChunk) {
+    return (isFirstInChunk ? '' : ',\n') + JSON.stringify({ tree });
+  },
+
+  renderImports(imports, isFirstInChunk) {
+    return (isFirstInChunk ? '' : ',\n') + JSON.stringify({ imports });
+  },
+
+  renderChanges(changes, isFirstInChunk) {
+    return (isFirstInChunk ? '' : ',\n') + JSON.stringify({ deleted: changes.deleted, renamed: changes.renamed });
+  },
+
+  renderInstructions(text, isFirstInChunk) {
+    return (isFirstInChunk ? '' : ',\n') + JSON.stringify({ instructions: text });
+  },
+
+  renderFilePart(part, isFirstInChunk) {
+    const entry: { [key: string]: unknown } = {
+      ...(part.kind !== 'file' ? { type: part.kind } : {}),
+      path: part.path,
+      language: part.language,
+      size: part.size,
+      content: part.content,
+      ...(part.numbered ? { lineNumbers: true } : {}),
+      ...(part.meta ? { meta: part.meta } : {}),
+    };
+    if (!part.isFirstPart || !part.isLastPart) {
+      entry.startLine = part.startLine;
+      entry.endLine = part.endLine;
+      entry.continues = !part.isLastPart;
+    }
+    return (isFirstInChunk ? '' : ',\n') + JSON.stringify(entry);
+  },
+};
+
+// Plain text: content between `=== File: ... ===` delimiter lines
+const textFormatter: ArchiveFormatter = {
+  defaultOutput: './txtzip.txt',
+  chunkHeader: '',
+  chunkFooter: '',
+
+  renderTree(tree, isFirstInChunk) {
+    return (isFirstInChunk ? '' : '\n') + `=== File Structure ===\n${tree}\n`;
+  },
+
+  renderImports(imports, isFirstInChunk) {
+    return (isFirstInChunk ? '' : '\n') + `=== Imports ===\n${formatUnresolvedImports(imports)}\n`;
+  },
+
+  renderChanges(changes, isFirstInChunk) {
+    return (isFirstInChunk ? '' : '\n') + `=== Deleted and Renamed Files ===\n${formatSnapshotChanges(changes)}\n`;
+  },
+
+  renderInstructions(text, isFirstInChunk) {
+    return (isFirstInChunk ? '' : '\n') + `=== Instructions ===\n${text}\n=== End of Instructions ===\n`;
+  },
+
+  renderFilePart(part) {
+    const label = sectionLabels[part.kind];
+    const metaSuffix = part.meta ? ` (${formatFileMeta(part.meta)})` : '';
+    const fileHeader = part.isFirstPart
+      ? `\n=== ${label}: ${part.path}${metaSuffix} ===\n`
+      : `\n=== Continuation of ${label}: ${part.path} (${formatLineRange(part.startLine, part.endLine)}) ===\n`;
+    const fileFooter = part.isLastPart
+      ? `=== End of ${label}: ${part.path} ===\n`
+      : '=== File continues in next part ===\n';
+
+    // Put the footer on its own line, even if the file doesn't end with a newline
+    const lineBreak = part.content === '' || part.content.endsWith('\n') ? '' : '\n';
+    return fileHeader + part.content + lineBreak + fileFooter;
+  },
+};
+
+const formatters: { [key in OutputFormat]: ArchiveFormatter } = {
+  markdown: markdownFormatter,
+  xml: xmlFormatter,
+  json: jsonFormatter,
+  text: textFormatter,
+};
+
+// Function to check if an output format name is supported
+export function isOutputFormat(format: string): format is OutputFormat {
+  return (outputFormats as readonly string[]).includes(format);
+}
+
+// Function to get the formatter for an output format
+export function getFormatter(format: OutputFormat): ArchiveFormatter {
+  return formatters[format];
+}
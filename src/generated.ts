@@ -0,0 +1,59 @@
+import path from 'path';
+import { isMarkdownExtension } from './languages.js';
+
+// Dependency lockfiles, which are generated by package managers
+export const lockfileNames = [
+  'package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lock', 'bun.lockb',
+  'Cargo.lock', 'Gemfile.lock', 'poetry.lock', 'Pipfile.lock', 'composer.lock', 'go.sum', 'flake.lock',
+  'mix.lock', 'pubspec.lock', 'Podfile.lock', 'packages.lock.json', 'gradle.lockfile',
+];
+
+// Phrases that code generators start the comments near the top of the files they write with, such as
+// "// Code generated by protoc-gen-go. DO NOT EDIT." or "# This file is autogenerated by pip-compile"
+const generatedMarkerPhrases = [
+  /@generated\b/,
+  /<auto-generated\b/,
+  /Code generated .* DO NOT EDIT/,
+  /DO NOT EDIT\b/,
+  /[Tt]his (?:file|code) (?:is|was|has been) (?:auto-?|automatically )?generated\b/,
+  /(?:[Aa]uto-?|[Aa]utomatically )generated by\b/,
+].map(phrase => phrase.source).join('|');
+
+// Comments that start with a generated file marker
+const generatedMarkerRegex = new RegExp(`^\\s*(?:\\/\\/|\\/\\*+|\\*|#|--|;|<!--)\\s*(?:${generatedMarkerPhrases})`, 'm');
+
+// In Markdown files, # starts a heading, so only HTML comments can hold the marker
+const markdownGeneratedMarkerRegex = new RegExp(`^\\s*<!--\\s*(?:${generatedMarkerPhrases})`, 'm');
+
+// Comments that bundlers and compilers add to the end of their output
+const sourceMapCommentRegex = /^\s*(\/\/|\/\*)[#@] sourceMappingURL=/m;
+
+// Lines longer than this are only written by minifiers and generators
+const maxLineLength = 5000;
+
+// Function to find why a file looks minified or generated, or null if it looks hand-written
+export function getGeneratedReason(relativePath: string, content: string): string | null {
+  const fileName = path.basename(relativePath);
+
+  if (lockfileNames.includes(fileName)) {
+    return 'lockfile';
+  }
+  if (/\.min\.(js|mjs|cjs|css)$/i.test(fileName)) {
+    return 'minified file name';
+  }
+  const markerRegex = isMarkdownExtension(path.extname(fileName)) ? markdownGeneratedMarkerRegex : generatedMarkerRegex;
+  if (markerRegex.test(content.split('\n', 10).join('\n'))) {
+    return 'generated file marker';
+  }
+  if (sourceMapCommentRegex.test(content.slice(-1000))) {
+    return 'source map comment';
+  }
+
+  const lines = content.split('\n');
+  const averageLineLength = content.length / lines.length;
+  if (lines.some(line => line.length > maxLineLength) || (content.length > 1000 && averageLineLength > 500)) {
+    return 'very long lines (minified)';
+  }
+
+  return null;
+}
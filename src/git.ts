@@ -0,0 +1,122 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import path from 'path';
+
+const execFileAsync = promisify(execFile);
+
+// Options that select files using git instead of walking the whole source folder
+export interface GitSelection {
+  // Only files changed since this ref, including uncommitted and untracked files
+  changedSince?: string;
+  // Only files with staged changes
+  staged?: boolean;
+  // Only files tracked by git
+  trackedOnly?: boolean;
+}
+
+// Function to run a git command in a folder and return its output
+export async function runGit(args: string[], cwd: string): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 256 * 1024 * 1024 });
+    return stdout;
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      throw new Error('The git executable was not found');
+    }
+    const message = (error?.stderr || error?.message || '').toString().trim();
+    throw new Error(`git ${args[0]} failed: ${message}`);
+  }
+}
+
+// Function to split NUL-separated git output into absolute paths
+function parsePathList(output: string, cwd: string): string[] {
+  return output
+    .split('\0')
+    .filter(Boolean)
+    .map(relativePath => path.resolve(cwd, relativePath));
+}
+
+// Last commit that changed a file
+export interface FileCommit {
+  hash: string;
+  author: string;
+  // Author date in ISO 8601 format
+  date: string;
+}
+
+// Function to check if any git selection mode is enabled
+export function hasGitSelection(selection: GitSelection): boolean {
+  return Boolean(selection.changedSince || selection.staged || selection.trackedOnly);
+}
+
+// Function to list the files selected by the git modes, as absolute paths
+export async function getGitFiles(sourceFolder: string, selection: GitSelection): Promise<string[]> {
+  const candidateSets: Set<string>[] = [];
+
+  if (selection.trackedOnly) {
+    const output = await runGit(['ls-files', '-z'], sourceFolder);
+    candidateSets.push(new Set(parsePathList(output, sourceFolder)));
+  }
+
+  if (selection.staged) {
+    const output = await runGit(['diff', '--cached', '--name-only', '--relative', '--diff-filter=d', '-z'], sourceFolder);
+    candidateSets.push(new Set(parsePathList(output, sourceFolder)));
+  }
+
+  if (selection.changedSince) {
+    const changed = await runGit(
+      ['diff', '--name-only', '--relative', '--diff-filter=d', '-z', selection.changedSince, '--'],
+      sourceFolder
+    );
+    const untracked = await runGit(['ls-files', '--others', '--exclude-standard', '-z'], sourceFolder);
+    candidateSets.push(new Set([...parsePathList(changed, sourceFolder), ...parsePathList(untracked, sourceFolder)]));
+  }
+
+  // Every enabled mode narrows the selection
+  const [first, ...rest] = candidateSets;
+  return [...(first ?? [])].filter(file => rest.every(set => set.has(file))).sort();
+}
+
+// Function to get the unified diff of a file for the selected git mode
+export async function getGitDiff(sourceFolder: string, file: string, selection: GitSelection): Promise<string> {
+  const relativePath = path.relative(sourceFolder, file);
+
+  if (selection.changedSince) {
+    const diff = await runGit(['diff', '--relative', selection.changedSince, '--', relativePath], sourceFolder);
+    if (diff) {
+      return diff;
+    }
+    // Untracked files have no diff against the ref, so show them as added
+    return runGitNoIndexDiff(sourceFolder, relativePath);
+  }
+  if (selection.staged) {
+    return runGit(['diff', '--cached', '--relative', '--', relativePath], sourceFolder);
+  }
+  return '';
+}
+
+// Function to diff an untracked file against an empty file
+async function runGitNoIndexDiff(sourceFolder: string, relativePath: string): Promise<string> {
+  try {
+    await execFileAsync('git', ['diff', '--no-index', '--', '/dev/null', relativePath], { cwd: sourceFolder });
+    return '';
+  } catch (error: any) {
+    // `git diff --no-index` exits with status 1 when the files differ
+    if (error?.code === 1 && typeof error.stdout === 'string') {
+      return error.stdout;
+    }
+    throw new Error(`git diff failed: ${(error?.stderr || error?.message || '').toString().trim()}`);
+  }
+}
+
+// Function to get the last commit that changed a file, or null if the file isn't committed or isn't in a repository
+export async function getLastCommit(sourceFolder: string, file: string): Promise<FileCommit | null> {
+  let output: string;
+  try {
+    output = await runGit(['log', '-1', '--format=%H%x00%an%x00%aI', '--', path.relative(sourceFolder, file)], sourceFolder);
+  } catch {
+    return null;
+  }
+  const [hash, author, date] = output.trim().split('\0');
+  return hash && author !== undefined && date ? { hash, author, date } : null;
+}
@@ -0,0 +1,146 @@
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import ignore, { Ignore } from 'ignore';
+
+// Files and folders that are skipped unless the default ignores are turned off
+export const additionalIgnoredFiles = [
+  '.DS_Store', 'Thumbs.db', 'desktop.ini', 'txtzip.json', 'txtzip.txt',
+  '.vscode', '.idea', '.gitignore', '.txtzipignore', 'node_modules', 'package-lock.json', 'yarn.lock'
+];
+
+// Git metadata is never archived
+const alwaysIgnoredFiles = ['.git'];
+
+// Ignore patterns that apply to the files below a folder
+export interface IgnoreLayer {
+  // Absolute path of the folder the patterns are relative to
+  base: string;
+  ig: Ignore;
+}
+
+// Ignore rules in effect for a folder, from lowest to highest precedence
+export interface IgnoreRules {
+  // Built-in defaults, .git/info/exclude and .gitignore files (deeper files take precedence)
+  gitLayers: IgnoreLayer[];
+  // .txtzipignore files, which take precedence over all of the git rules
+  txtzipLayers: IgnoreLayer[];
+}
+
+// Function to read the content of an ignore file, or null if it doesn't exist
+export type IgnoreFileReader = (filePath: string) => Promise<string | null>;
+
+// Function to read an ignore file from disk
+const readIgnoreFileFromDisk: IgnoreFileReader = async filePath => existsSync(filePath) ? readFile(filePath, 'utf8') : null;
+
+// Function to read an ignore file into a layer, if it exists
+async function loadIgnoreFile(
+  filePath: string,
+  base: string,
+  readIgnoreFile: IgnoreFileReader = readIgnoreFileFromDisk
+): Promise<IgnoreLayer | null> {
+  const content = await readIgnoreFile(filePath);
+  return content === null ? null : { base, ig: ignore().add(content) };
+}
+
+// Function to find the root of the git repository that contains a folder
+export function findGitRoot(folder: string): string | null {
+  let current = path.resolve(folder);
+  while (true) {
+    if (existsSync(path.join(current, '.git'))) {
+      return current;
+    }
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return null;
+    }
+    current = parent;
+  }
+}
+
+// Function to add the .gitignore and .txtzipignore files of a folder to the rules
+export async function addDirectoryIgnoreRules(
+  dir: string,
+  rules: IgnoreRules,
+  readIgnoreFile?: IgnoreFileReader
+): Promise<IgnoreRules> {
+  const gitignore = await loadIgnoreFile(path.join(dir, '.gitignore'), dir, readIgnoreFile);
+  const txtzipignore = await loadIgnoreFile(path.join(dir, '.txtzipignore'), dir, readIgnoreFile);
+
+  if (!gitignore && !txtzipignore) {
+    return rules;
+  }
+  return {
+    gitLayers: gitignore ? [...rules.gitLayers, gitignore] : rules.gitLayers,
+    txtzipLayers: txtzipignore ? [...rules.txtzipLayers, txtzipignore] : rules.txtzipLayers,
+  };
+}
+
+// Read the ignore rules that apply to the source folder using the `ignore` package. The ignore files of a source
+// archive are read with readIgnoreFile, and the rules of the git repository it is in don't apply to its entries.
+export async function loadIgnoreRules(
+  sourceFolder: string,
+  defaultIgnores: boolean = true,
+  readIgnoreFile?: IgnoreFileReader
+): Promise<IgnoreRules> {
+  let rules: IgnoreRules = { gitLayers: [], txtzipLayers: [] };
+
+  // Add additional ignored files
+  if (defaultIgnores) {
+    rules.gitLayers.push({ base: sourceFolder, ig: ignore().add(additionalIgnoredFiles) });
+  }
+
+  // Rules from the repository's .git/info/exclude and from the .gitignore files above the source folder
+  const gitRoot = readIgnoreFile ? null : findGitRoot(sourceFolder);
+  if (gitRoot) {
+    const exclude = await loadIgnoreFile(path.join(gitRoot, '.git', 'info', 'exclude'), gitRoot);
+    if (exclude) {
+      rules.gitLayers.push(exclude);
+    }
+
+    const parents: string[] = [];
+    for (let dir = path.dirname(sourceFolder); dir.startsWith(gitRoot); dir = path.dirname(dir)) {
+      parents.unshift(dir);
+      if (dir === gitRoot) break;
+    }
+    for (const dir of parents) {
+      rules = await addDirectoryIgnoreRules(dir, rules);
+    }
+  }
+
+  return addDirectoryIgnoreRules(sourceFolder, rules, readIgnoreFile);
+}
+
+// Function to check a file or folder against the ignore rules
+export function isIgnored(rules: IgnoreRules, fullPath: string, isDirectory: boolean): boolean {
+  if (alwaysIgnoredFiles.includes(path.basename(fullPath))) {
+    return true;
+  }
+
+  let ignored = false;
+
+  for (const layer of [...rules.gitLayers, ...rules.txtzipLayers]) {
+    const relativePath = path.relative(layer.base, fullPath).split(path.sep).join('/');
+    if (!relativePath || relativePath.startsWith('..')) {
+      continue;
+    }
+
+    // Folder patterns such as `build/` only match paths with a trailing slash
+    const result = layer.ig.test(isDirectory ? relativePath + '/' : relativePath);
+
+    // The walk only reaches paths whose parent folders were kept, so a match inherited from a parent folder
+    // (e.g., re-included by a .txtzipignore negation) doesn't count
+    const parentPath = path.posix.dirname(relativePath);
+    if (result.ignored && parentPath !== '.' && layer.ig.test(parentPath + '/').ignored) {
+      continue;
+    }
+
+    if (result.ignored) {
+      ignored = true;
+    } else if (result.unignored) {
+      ignored = false;
+    }
+  }
+
+  return ignored;
+}
@@ -0,0 +1,239 @@
+import { readFile } from 'fs/promises';
+import { statSync } from 'fs';
+import path from 'path';
+import { scriptExtensions } from './languages.js';
+import { loadCompiler } from './compiler.js';
+
+// Why an import isn't part of the archive: a package, or a local path that doesn't resolve to a file
+export type UnresolvedImportKind = 'external' | 'unresolved';
+
+// An import that doesn't resolve to a file in the source folder
+export interface UnresolvedImport {
+  // Path of the importing file, relative to the source folder
+  relativePath: string;
+  // Module specifier as written in the import
+  specifier: string;
+  kind: UnresolvedImportKind;
+}
+
+// Files reachable from the entry files, and the imports that were not followed
+export interface ImportClosure {
+  // Absolute paths of the entry files followed by the files they import, in the order they were found
+  files: string[];
+  unresolved: UnresolvedImport[];
+}
+
+// Module resolution settings from tsconfig.json
+interface PathMapping {
+  // Folder that non-relative imports are resolved against, if set
+  baseUrl: string | null;
+  // Folder that the targets of the paths are resolved against
+  pathsBase: string;
+  paths: { [pattern: string]: string[] };
+}
+
+// Extensions tried for imports that leave them out, in order
+const resolveExtensions = ['.ts', '.tsx', '.mts', '.cts', '.d.ts', '.js', '.jsx', '.mjs', '.cjs', '.json'];
+
+// TypeScript sources that compile to each JavaScript extension, since ESM imports in TypeScript name the output file
+const sourceExtensions: { [ext: string]: string[] } = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+// Function to check if a path is a regular file
+function isFile(filePath: string): boolean {
+  return statSync(filePath, { throwIfNoEntry: false })?.isFile() ?? false;
+}
+
+// Function to check if a path is a folder
+function isDirectory(filePath: string): boolean {
+  return statSync(filePath, { throwIfNoEntry: false })?.isDirectory() ?? false;
+}
+
+// Function to resolve an import path to a file, guessing the extension and falling back to index files
+function resolveFile(basePath: string): string | null {
+  if (isFile(basePath)) {
+    return basePath;
+  }
+
+  const ext = path.extname(basePath);
+  for (const sourceExt of sourceExtensions[ext] ?? []) {
+    const sourcePath = basePath.slice(0, -ext.length) + sourceExt;
+    if (isFile(sourcePath)) {
+      return sourcePath;
+    }
+  }
+
+  for (const resolveExt of resolveExtensions) {
+    if (isFile(basePath + resolveExt)) {
+      return basePath + resolveExt;
+    }
+  }
+
+  if (isDirectory(basePath)) {
+    for (const resolveExt of resolveExtensions) {
+      const indexPath = path.join(basePath, 'index' + resolveExt);
+      if (isFile(indexPath)) {
+        return indexPath;
+      }
+    }
+  }
+  return null;
+}
+
+// Function to load the baseUrl and paths settings of the tsconfig.json (or jsconfig.json) in the source folder,
+// following relative `extends` references
+async function loadPathMapping(sourceFolder: string): Promise<PathMapping> {
+  const ts = await loadCompiler();
+  const mapping: PathMapping = { baseUrl: null, pathsBase: sourceFolder, paths: {} };
+  let configFile = ['tsconfig.json', 'jsconfig.json'].map(name => path.join(sourceFolder, name)).find(isFile);
+
+  // Settings of the config file win over those of the files it extends, which are read after it
+  let hasBaseUrl = false;
+  let hasPaths = false;
+  const visited = new Set<string>();
+  while (configFile && !visited.has(configFile)) {
+    visited.add(configFile);
+    const { config, error } = ts.readConfigFile(configFile, ts.sys.readFile);
+    if (error) {
+      throw new Error(`Failed to parse ${configFile}: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`);
+    }
+
+    const configFolder = path.dirname(configFile);
+    const compilerOptions = config.compilerOptions ?? {};
+    if (!hasBaseUrl && typeof compilerOptions.baseUrl === 'string') {
+      hasBaseUrl = true;
+      mapping.baseUrl = path.resolve(configFolder, compilerOptions.baseUrl);
+    }
+    if (!hasPaths && compilerOptions.paths) {
+      hasPaths = true;
+      mapping.paths = compilerOptions.paths;
+      mapping.pathsBase = configFolder;
+    }
+
+    // Only relative references are followed, not configs from packages
+    const extendsPath = typeof config.extends === 'string' && config.extends.startsWith('.') ? config.extends : null;
+    configFile = extendsPath
+      ? [path.resolve(configFolder, extendsPath), path.resolve(configFolder, extendsPath + '.json')].find(isFile)
+      : undefined;
+  }
+
+  // Paths are relative to baseUrl when it is set
+  if (mapping.baseUrl) {
+    mapping.pathsBase = mapping.baseUrl;
+  }
+  return mapping;
+}
+
+// Function to resolve a non-relative import with the paths and baseUrl settings, or undefined if none applies
+function resolveMappedImport(specifier: string, mapping: PathMapping): string | null | undefined {
+  for (const [pattern, targets] of Object.entries(mapping.paths)) {
+    const [prefix, suffix] = pattern.split('*');
+    const isWildcard = suffix !== undefined;
+    const matches = isWildcard
+      ? specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= prefix.length + suffix.length
+      : specifier === pattern;
+    if (!matches) {
+      continue;
+    }
+
+    const captured = isWildcard ? specifier.slice(prefix.length, specifier.length - suffix.length) : '';
+    for (const target of targets) {
+      const resolved = resolveFile(path.resolve(mapping.pathsBase, target.replace('*', captured)));
+      if (resolved) {
+        return resolved;
+      }
+    }
+    return null;
+  }
+
+  return mapping.baseUrl ? resolveFile(path.resolve(mapping.baseUrl, specifier)) ?? undefined : undefined;
+}
+
+// Function to find the module specifiers a file imports: ES imports and re-exports, dynamic import() and require()
+export async function findImportSpecifiers(content: string): Promise<string[]> {
+  const ts = await loadCompiler();
+  const info = ts.preProcessFile(content, true, true);
+  return [...info.importedFiles, ...info.referencedFiles].map(reference => reference.fileName);
+}
+
+// Function to collect the entry files and the local files they import, transitively up to the given depth
+// (0 only collects the entry files)
+export async function collectImportClosure(
+  entries: string[],
+  sourceFolder: string,
+  depth: number = Infinity
+): Promise<ImportClosure> {
+  const mapping = await loadPathMapping(sourceFolder);
+  const depths = new Map<string, number>();
+  const unresolved: UnresolvedImport[] = [];
+  const queue: string[] = [];
+
+  for (const entry of entries) {
+    if (!isFile(entry)) {
+      throw new Error(`Entry file not found: ${entry}`);
+    }
+    if (path.relative(sourceFolder, entry).startsWith('..')) {
+      throw new Error(`Entry file is outside the source folder: ${entry}`);
+    }
+    if (!depths.has(entry)) {
+      depths.set(entry, 0);
+      queue.push(entry);
+    }
+  }
+
+  // Files are visited breadth-first, so each file gets the depth of its shortest import chain
+  for (let i = 0; i < queue.length; i++) {
+    const file = queue[i];
+    const fileDepth = depths.get(file)!;
+    if (fileDepth >= depth || !scriptExtensions.includes(path.extname(file).toLowerCase())) {
+      continue;
+    }
+
+    const relativePath = path.relative(sourceFolder, file);
+    const specifiers = await findImportSpecifiers(await readFile(file, 'utf8'));
+    for (const specifier of new Set(specifiers)) {
+      // Query strings and fragments are used by bundlers, e.g., `./icon.svg?raw`
+      const importPath = specifier.replace(/[?#].*$/, '');
+      const isRelative = importPath.startsWith('.') || path.isAbsolute(importPath);
+      const resolved = isRelative
+        ? resolveFile(path.resolve(path.dirname(file), importPath))
+        : resolveMappedImport(importPath, mapping);
+
+      const isInSource = resolved && !path.relative(sourceFolder, resolved).startsWith('..');
+      if (!resolved || !isInSource) {
+        const kind = resolved === undefined ? 'external' : 'unresolved';
+        unresolved.push({ relativePath, specifier, kind });
+      } else if (!depths.has(resolved)) {
+        depths.set(resolved, fileDepth + 1);
+        queue.push(resolved);
+      }
+    }
+  }
+
+  return { files: queue, unresolved };
+}
+
+// Function to format the unresolved imports as a list of external packages followed by the unresolved paths
+export function formatUnresolvedImports(imports: UnresolvedImport[]): string {
+  const lines: string[] = [];
+  for (const [kind, title] of [['external', 'External packages:'], ['unresolved', 'Unresolved imports:']] as const) {
+    // Group the importing files by specifier
+    const importers = new Map<string, string[]>();
+    for (const entry of imports.filter(entry => entry.kind === kind)) {
+      importers.set(entry.specifier, [...(importers.get(entry.specifier) ?? []), entry.relativePath]);
+    }
+    if (importers.size === 0) {
+      continue;
+    }
+
+    lines.push(title);
+    for (const [specifier, files] of [...importers.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+      lines.push(`  ${specifier} (${files.join(', ')})`);
+    }
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,106 @@
+// List of common source code file extensions
+export const sourceCodeExtensions = [
+  '.js', '.ts', '.jsx', '.tsx', '.py', '.java', '.c', '.cpp', '.h', '.hpp',
+  '.cs', '.go', '.rb', '.php', '.swift', '.kt', '.kts', '.rs', '.sh', '.bat',
+  '.ps1', '.pl', '.lua', '.sql', '.scala', '.groovy', '.hs', '.erl', '.ex',
+  '.exs', '.r', '.jl', '.f90', '.f95', '.f03', '.clj', '.cljc', '.cljs',
+  '.coffee', '.dart', '.elm', '.fs', '.fsi', '.fsx', '.fsscript', '.gd',
+  '.hbs', '.idr', '.nim', '.ml', '.mli', '.mll', '.mly', '.purs', '.rkt',
+  '.vb', '.vbs', '.vba', '.feature', '.s', '.asm', '.sln', '.md', '.markdown',
+  '.yml', '.yaml', '.json', '.xml', '.html', '.css', '.scss', '.less', '.ini',
+  '.conf', '.config', '.toml', '.tex', '.bib',
+];
+
+// Function to get language identifier from file extension
+export function getLanguageFromExtension(ext: string): string {
+  const extensionMap: { [key: string]: string } = {
+    '.js': 'javascript',
+    '.ts': 'typescript',
+    '.jsx': 'jsx',
+    '.tsx': 'tsx',
+    '.py': 'python',
+    '.java': 'java',
+    '.c': 'c',
+    '.cpp': 'cpp',
+    '.h': 'cpp',
+    '.hpp': 'cpp',
+    '.cs': 'csharp',
+    '.go': 'go',
+    '.rb': 'ruby',
+    '.php': 'php',
+    '.swift': 'swift',
+    '.kt': 'kotlin',
+    '.kts': 'kotlin',
+    '.rs': 'rust',
+    '.sh': 'bash',
+    '.bat': 'bat',
+    '.ps1': 'powershell',
+    '.pl': 'perl',
+    '.lua': 'lua',
+    '.sql': 'sql',
+    '.scala': 'scala',
+    '.groovy': 'groovy',
+    '.hs': 'haskell',
+    '.erl': 'erlang',
+    '.ex': 'elixir',
+    '.exs': 'elixir',
+    '.r': 'r',
+    '.jl': 'julia',
+    '.f90': 'fortran',
+    '.f95': 'fortran',
+    '.f03': 'fortran',
+    '.clj': 'clojure',
+    '.cljc': 'clojure',
+    '.cljs': 'clojure',
+    '.coffee': 'coffeescript',
+    '.dart': 'dart',
+    '.elm': 'elm',
+    '.fs': 'fsharp',
+    '.fsi': 'fsharp',
+    '.fsx': 'fsharp',
+    '.gd': 'gdscript',
+    '.hbs': 'handlebars',
+    '.idr': 'idris',
+    '.nim': 'nim',
+    '.ml': 'ocaml',
+    '.mli': 'ocaml',
+    '.mll': 'ocaml',
+    '.mly': 'ocaml',
+    '.purs': 'purescript',
+    '.rkt': 'racket',
+    '.vb': 'vb.net',
+    '.vbs': 'vbscript',
+    '.vba': 'vba',
+    '.feature': 'gherkin',
+    '.s': 'assembly',
+    '.asm': 'assembly',
+    '.sln': 'xml',
+    '.md': 'markdown',
+    '.markdown': 'markdown',
+    '.yml': 'yaml',
+    '.yaml': 'yaml',
+    '.json': 'json',
+    '.xml': 'xml',
+    '.html': 'html',
+    '.css': 'css',
+    '.scss': 'scss',
+    '.less': 'less',
+    '.ini': 'ini',
+    '.conf': '',
+    '.config': '',
+    '.toml': 'toml',
+    '.tex': 'latex',
+    '.bib': 'bibtex',
+    '.txt': '',
+  };
+  return extensionMap[ext.toLowerCase()] || '';
+}
+
+// Extensions of TypeScript and JavaScript files, which can be parsed with the TypeScript compiler
+export const scriptExtensions = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+// Function to check if a file extension belongs to a Markdown file
+export function isMarkdownExtension(ext: string): boolean {
+  const lowerExt = ext.toLowerCase();
+  return lowerExt === '.md' || lowerExt === '.markdown';
+}
@@ -0,0 +1,345 @@
+import path from 'path';
+import { TokenEncoding, isTokenEncoding } from './tokens.js';
+import { OutputFormat, getFormatter, isOutputFormat } from './formats.js';
+import { SecretRule, SecretsMode, builtInSecretRules, isSecretsMode } from './secrets.js';
+import { TransformRule } from './transforms.js';
+import { FileOrder, defaultPriority, isFileOrder } from './order.js';
+import { SourceRoot, SourceRootOption, getSourceBase, resolveSourceRoots } from './roots.js';
+import { isSourceArchive } from './unpack.js';
+import { getDefaultProjectName, validateTemplate } from './templates.js';
+import { defaultConcurrency } from './concurrency.js';
+import { Snapshot } from './snapshot.js';
+import { ConverterRule, defaultConverters, isConverterName } from './converters.js';
+
+// Output file name that writes the archive to stdout
+export const stdoutOutput = '-';
+
+// What to do when the archive exceeds the total token budget
+export type OverBudgetPolicy = 'fail' | 'drop';
+
+// Options accepted by the programmatic API
+export interface ArchiveOptions {
+  // Source folder to archive (defaults to the current working directory), or several source folders archived together
+  // and grouped by their labels; a .zip, .tar or .tar.gz file is read as a folder
+  source?: string | (string | SourceRootOption)[];
+  // Archive the workspace packages declared in package.json or pnpm-workspace.yaml of the source folder instead
+  workspaces?: boolean;
+  // Output file name used when writing the archive (defaults to ./txtzip.md, or the format's default; '-' for stdout)
+  output?: string;
+  // Overwrite output files if they exist
+  overwrite?: boolean;
+  // Only include files with source code related extensions
+  sourceOnly?: boolean;
+  // Strip empty lines from files (blank lines inside strings are kept, and Markdown only loses repeated ones)
+  stripEmptyLines?: boolean;
+  // Strip comments from files in languages with known comment syntax
+  stripComments?: boolean;
+  // Shrink each indentation level to a single space
+  compactIndent?: boolean;
+  // Transforms for the files matching glob patterns, overriding stripEmptyLines, stripComments and compactIndent
+  transforms?: TransformRule[];
+  // Convert notebooks, large data files and SVGs to compact text (defaults to true)
+  convert?: boolean;
+  // Converters for the files matching glob patterns, applied on top of the default converters
+  converters?: ConverterRule[];
+  // Outline TypeScript and JavaScript files, keeping declarations and signatures without function bodies
+  // (true for every such file, or glob patterns of the files to outline)
+  outline?: boolean | string[];
+  // Order of the files in the archive: by path, size, modification time or priority (defaults to priority when a
+  // priority list is given, and to path otherwise)
+  order?: FileOrder;
+  // Glob patterns of the files that come first, in order; '...' stands for the other files, so the patterns after
+  // it come last
+  priority?: string[];
+  // Include files matching the given glob patterns
+  include?: string[];
+  // Exclude files matching the given glob patterns
+  exclude?: string[];
+  // Maximum size of each output chunk, in bytes or as a size string (e.g., 1M, 512k)
+  chunkSize?: number | string;
+  // Prefix the output with a tree-like structure of included files
+  prefixTree?: boolean;
+  // Prefix each line of the file contents with its line number
+  lineNumbers?: boolean;
+  // Add the size, line count, modification time and last commit of each file to its header
+  fileMeta?: boolean;
+  // Template of the text at the start and end of every output file, with variables such as {{part}} and {{tree}}
+  headerTemplate?: string;
+  footerTemplate?: string;
+  // Tell the model which part of a multi-part archive it is reading, and to wait for the last one (defaults to true)
+  partPreambles?: boolean;
+  // Name of the project used in templates (defaults to the name of the source folder)
+  projectName?: string;
+  // Write a manifest with the path, size, content hash and chunks of each file next to the output
+  manifest?: boolean;
+  // Manifest of an earlier archive; only the files added or modified since then are archived
+  sinceManifest?: Snapshot;
+  // Maximum estimated tokens of each output chunk (used instead of chunkSize)
+  chunkTokens?: number;
+  // Maximum estimated tokens of the whole archive
+  maxTokens?: number;
+  // Encoding used by the token estimator (defaults to cl100k)
+  encoding?: TokenEncoding;
+  // Fail or drop the files that don't fit when the archive exceeds maxTokens (defaults to fail)
+  overBudget?: OverBudgetPolicy;
+  // Output format of the archive (defaults to markdown)
+  format?: OutputFormat;
+  // Skip common editor, OS and lock files such as .DS_Store and yarn.lock (defaults to true)
+  defaultIgnores?: boolean;
+  // Only include files changed since this git ref, including uncommitted and untracked files
+  changedSince?: string;
+  // Only include files with staged changes
+  staged?: boolean;
+  // Only include files tracked by git
+  trackedOnly?: boolean;
+  // Add the unified diff of each file next to its content (requires changedSince or staged)
+  withDiff?: boolean;
+  // Archive the files listed in this file instead of walking the source folder ('-' for stdin)
+  filesFrom?: string;
+  // Archive these files and the local files they import, transitively, instead of walking the source folder
+  entry?: string[];
+  // Maximum number of import levels followed from the entry files (0 only includes the entry files)
+  depth?: number;
+  // List the external packages and unresolved imports of the entry files at the top of the archive
+  listImports?: boolean;
+  // Decode files that aren't valid UTF-8 as Latin-1 instead of skipping them as binary
+  latin1?: boolean;
+  // Maximum size of a single file, in bytes or as a size string; larger files are skipped or truncated
+  maxFileSize?: number | string;
+  // Maximum size of all file contents together; files past the limit are skipped
+  maxTotalSize?: number | string;
+  // Truncate files larger than maxFileSize to head and tail excerpts instead of skipping them
+  truncate?: boolean;
+  // Skip files that look minified or generated, such as lockfiles and bundles (defaults to true)
+  skipGenerated?: boolean;
+  // Redact secrets, skip the files that contain them, fail, or turn scanning off (defaults to redact)
+  secrets?: SecretsMode;
+  // Extra rules for detecting secrets, used together with the built-in rules
+  secretRules?: SecretRule[];
+  // Maximum number of files read at the same time (defaults to 16)
+  concurrency?: number;
+}
+
+// Options with all defaults applied and paths resolved
+export interface ResolvedArchiveOptions {
+  // The source folder, or the folder that contains all of the source folders
+  source: string;
+  // Source folders with their labels, at least one
+  roots: SourceRoot[];
+  output: string;
+  overwrite: boolean;
+  sourceOnly: boolean;
+  stripEmptyLines: boolean;
+  stripComments: boolean;
+  compactIndent: boolean;
+  transforms: TransformRule[];
+  convert: boolean;
+  // Default converters followed by the converters from the options
+  converters: ConverterRule[];
+  // False, true or a non-empty list of glob patterns
+  outline: boolean | string[];
+  order: FileOrder;
+  // Priority patterns, or the default priority if none were given
+  priority: string[];
+  include: string[];
+  exclude: string[];
+  chunkSize: number;
+  prefixTree: boolean;
+  lineNumbers: boolean;
+  fileMeta: boolean;
+  headerTemplate: string;
+  footerTemplate: string;
+  partPreambles: boolean;
+  projectName: string;
+  manifest: boolean;
+  sinceManifest: Snapshot | null;
+  chunkTokens: number;
+  maxTokens: number;
+  encoding: TokenEncoding;
+  overBudget: OverBudgetPolicy;
+  format: OutputFormat;
+  defaultIgnores: boolean;
+  changedSince: string;
+  staged: boolean;
+  trackedOnly: boolean;
+  withDiff: boolean;
+  filesFrom: string;
+  // Absolute paths of the entry files
+  entry: string[];
+  // Infinity when imports are followed without a limit
+  depth: number;
+  listImports: boolean;
+  latin1: boolean;
+  maxFileSize: number;
+  maxTotalSize: number;
+  truncate: boolean;
+  skipGenerated: boolean;
+  secrets: SecretsMode;
+  // Built-in rules followed by the extra rules
+  secretRules: SecretRule[];
+  concurrency: number;
+}
+
+// Function to parse size strings (e.g., '1M', '512k') into bytes
+export function parseSize(sizeStr: string): number {
+  const units: { [key: string]: number } = {
+    '': 1,
+    'b': 1,
+    'k': 1024,
+    'kb': 1024,
+    'm': 1024 * 1024,
+    'mb': 1024 * 1024,
+    'g': 1024 * 1024 * 1024,
+    'gb': 1024 * 1024 * 1024,
+  };
+
+  const match = sizeStr.trim().toLowerCase().match(/^(\d+)([bkmg]b?)?$/);
+  if (!match) {
+    throw new Error(`Invalid size format: ${sizeStr}`);
+  }
+  const num = parseInt(match[1], 10);
+  const unit = match[2] || '';
+  const multiplier = units[unit];
+  if (multiplier === undefined) {
+    throw new Error(`Invalid size unit in size: ${sizeStr}`);
+  }
+  return num * multiplier;
+}
+
+// Function to convert a size option to bytes (0 means no limit)
+function toBytes(size: number | string | undefined): number {
+  if (typeof size === 'number') {
+    return size;
+  }
+  return size ? parseSize(size) : 0;
+}
+
+// Function to apply defaults to archive options and resolve paths to absolute paths
+export function resolveArchiveOptions(options: ArchiveOptions = {}): ResolvedArchiveOptions {
+  const chunkSize = options.chunkSize ?? 0;
+  const encoding = options.encoding ?? 'cl100k';
+  const overBudget = options.overBudget ?? 'fail';
+  const format = options.format ?? 'markdown';
+  const secrets = options.secrets ?? 'redact';
+  const order = options.order ?? (options.priority?.length ? 'priority' : 'path');
+
+  if (!isTokenEncoding(encoding)) {
+    throw new Error(`Unknown token encoding: ${encoding}`);
+  }
+  if (!isOutputFormat(format)) {
+    throw new Error(`Unknown output format: ${format}`);
+  }
+  if (overBudget !== 'fail' && overBudget !== 'drop') {
+    throw new Error(`Invalid over-budget policy: ${overBudget}`);
+  }
+  if (!isFileOrder(order)) {
+    throw new Error(`Unknown file order: ${order}`);
+  }
+  if (!isSecretsMode(secrets)) {
+    throw new Error(`Invalid secrets mode: ${secrets}`);
+  }
+  if (options.withDiff && !options.changedSince && !options.staged) {
+    throw new Error('Diffs can only be added together with changed-since or staged');
+  }
+  if (options.entry?.length && options.filesFrom) {
+    throw new Error('Entry files and a file list cannot be used together');
+  }
+  if (options.depth !== undefined && !(options.depth >= 0)) {
+    throw new Error(`Invalid import depth: ${options.depth}`);
+  }
+  if ((options.depth !== undefined || options.listImports) && !options.entry?.length) {
+    throw new Error('The import depth and import list require entry files');
+  }
+  if (chunkSize && options.chunkTokens) {
+    throw new Error('Chunk size and chunk tokens cannot be used together');
+  }
+  if (options.transforms?.some(rule => !rule.files || rule.files.length === 0)) {
+    throw new Error('Every transform rule needs file patterns');
+  }
+  for (const rule of options.converters ?? []) {
+    if (!rule.files || rule.files.length === 0) {
+      throw new Error('Every converter rule needs file patterns');
+    }
+    if (!isConverterName(rule.converter)) {
+      throw new Error(`Invalid converter: ${rule.converter}`);
+    }
+  }
+  if (options.truncate && !options.maxFileSize) {
+    throw new Error('Truncation requires a maximum file size');
+  }
+  if (options.concurrency !== undefined && !(Number.isInteger(options.concurrency) && options.concurrency >= 1)) {
+    throw new Error(`Invalid concurrency: ${options.concurrency}`);
+  }
+  if (options.output === stdoutOutput && (chunkSize || options.chunkTokens)) {
+    throw new Error('Chunked archives cannot be written to stdout');
+  }
+  if (options.output === stdoutOutput && options.manifest) {
+    throw new Error('A manifest cannot be written when the archive is written to stdout');
+  }
+
+  validateTemplate(options.headerTemplate ?? '', 'header');
+  validateTemplate(options.footerTemplate ?? '', 'footer');
+
+  const roots = resolveSourceRoots(options.source, options.workspaces);
+
+  // The entries of a source archive aren't files that git, a file list or the imports of entry files can refer to
+  const hasFileSelection = options.changedSince || options.staged || options.trackedOnly || options.filesFrom || options.entry?.length;
+  if (hasFileSelection && roots.some(root => isSourceArchive(root.path))) {
+    throw new Error('Git selections, file lists and entry files cannot be used with a source archive');
+  }
+
+  const source = getSourceBase(roots);
+
+  return {
+    source,
+    roots,
+    output: options.output === stdoutOutput
+      ? stdoutOutput
+      : path.resolve(options.output || getFormatter(format).defaultOutput),
+    overwrite: options.overwrite ?? false,
+    sourceOnly: options.sourceOnly ?? false,
+    stripEmptyLines: options.stripEmptyLines ?? false,
+    stripComments: options.stripComments ?? false,
+    compactIndent: options.compactIndent ?? false,
+    transforms: options.transforms ?? [],
+    convert: options.convert ?? true,
+    converters: [...defaultConverters, ...(options.converters ?? [])],
+    outline: Array.isArray(options.outline) && options.outline.length === 0 ? false : options.outline ?? false,
+    order,
+    priority: options.priority?.length ? options.priority.map(String) : defaultPriority,
+    include: (options.include ?? []).map(String),
+    exclude: (options.exclude ?? []).map(String),
+    chunkSize: toBytes(chunkSize),
+    prefixTree: options.prefixTree ?? false,
+    lineNumbers: options.lineNumbers ?? false,
+    fileMeta: options.fileMeta ?? false,
+    headerTemplate: options.headerTemplate ?? '',
+    footerTemplate: options.footerTemplate ?? '',
+    partPreambles: options.partPreambles ?? true,
+    projectName: options.projectName || getDefaultProjectName(source),
+    manifest: options.manifest ?? false,
+    sinceManifest: options.sinceManifest ?? null,
+    chunkTokens: options.chunkTokens ?? 0,
+    maxTokens: options.maxTokens ?? 0,
+    encoding,
+    overBudget,
+    format,
+    defaultIgnores: options.defaultIgnores ?? true,
+    changedSince: options.changedSince ?? '',
+    staged: options.staged ?? false,
+    trackedOnly: options.trackedOnly ?? false,
+    withDiff: options.withDiff ?? false,
+    filesFrom: options.filesFrom ?? '',
+    entry: (options.entry ?? []).map(entry => path.resolve(String(entry))),
+    depth: options.depth ?? Infinity,
+    listImports: options.listImports ?? false,
+    latin1: options.latin1 ?? false,
+    maxFileSize: toBytes(options.maxFileSize),
+    maxTotalSize: toBytes(options.maxTotalSize),
+    truncate: options.truncate ?? false,
+    skipGenerated: options.skipGenerated ?? true,
+    secrets,
+    secretRules: [...builtInSecretRules, ...(options.secretRules ?? [])],
+    concurrency: options.concurrency ?? defaultConcurrency,
+  };
+}
@@ -0,0 +1,95 @@
+import { stat } from 'fs/promises';
+import path from 'path';
+import { minimatch } from 'minimatch';
+
+// Orders of the files in the archive
+export const fileOrders = ['path', 'size', 'mtime', 'priority'] as const;
+
+export type FileOrder = typeof fileOrders[number];
+
+// Placeholder in a priority list for the files that match none of its patterns
+export const restPlaceholder = '...';
+
+// Priority used when ordering by priority without a list: overviews and entry points first, tests last
+export const defaultPriority = [
+  'README*',
+  'package.json',
+  'src/index.*',
+  'index.*',
+  restPlaceholder,
+  '**/*.test.*',
+  '**/*.spec.*',
+  '**/__tests__/**',
+  '**/test/**',
+  '**/tests/**',
+];
+
+// Function to check if a file order name is supported
+export function isFileOrder(order: string): order is FileOrder {
+  return (fileOrders as readonly string[]).includes(order);
+}
+
+// Function to compare two relative paths in the order of the file tree: folders before files, then by name.
+// Names are compared by code unit, so the order doesn't depend on the locale.
+export function comparePaths(a: string, b: string): number {
+  const aParts = a.split(path.sep);
+  const bParts = b.split(path.sep);
+  for (let i = 0; i < Math.min(aParts.length, bParts.length); i++) {
+    if (aParts[i] === bParts[i]) {
+      continue;
+    }
+    const aIsFolder = i < aParts.length - 1;
+    const bIsFolder = i < bParts.length - 1;
+    if (aIsFolder !== bIsFolder) {
+      return aIsFolder ? -1 : 1;
+    }
+    return aParts[i] < bParts[i] ? -1 : 1;
+  }
+  return aParts.length - bParts.length;
+}
+
+// Function to rank a relative path by the first priority pattern it matches; files that match none rank at the
+// placeholder, or after all of the patterns if there is none
+export function getPriorityRank(relativePath: string, priority: string[]): number {
+  const posixPath = relativePath.split(path.sep).join('/');
+  const rank = priority.findIndex(
+    pattern => pattern !== restPlaceholder
+      && minimatch(posixPath, pattern, { matchBase: !pattern.includes('/'), dot: true })
+  );
+  if (rank !== -1) {
+    return rank;
+  }
+  const restIndex = priority.indexOf(restPlaceholder);
+  return restIndex === -1 ? priority.length : restIndex;
+}
+
+// Function to read the size and modification time of a file, which files can be ordered by
+export type FileStatsReader = (file: string) => Promise<{ size: number; mtimeMs: number }>;
+
+// Function to sort the files of a source folder: by path, by size (smallest first), by modification time (newest
+// first) or by priority. Ties are broken by path, so the order is the same on every machine. The sizes and times
+// are read from disk, unless another reader is given, e.g., for the entries of a source archive.
+export async function orderFiles(
+  files: string[],
+  sourceFolder: string,
+  order: FileOrder,
+  priority: string[] = defaultPriority,
+  statFile: FileStatsReader = stat
+): Promise<string[]> {
+  const entries: { file: string; relativePath: string; key: number }[] = [];
+  for (const file of files) {
+    const relativePath = path.relative(sourceFolder, file);
+    let key = 0;
+    if (order === 'size' || order === 'mtime') {
+      const fileStats = await statFile(file);
+      key = order === 'size' ? fileStats.size : -fileStats.mtimeMs;
+    } else if (order === 'priority') {
+      key = getPriorityRank(relativePath, priority);
+    }
+    entries.push({ file, relativePath, key });
+  }
+
+  return entries
+    .sort((a, b) => a.key - b.key || comparePaths(a.relativePath, b.relativePath))
+    .map(entry => entry.file);
+}
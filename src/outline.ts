@@ -0,0 +1,142 @@
+import path from 'path';
+import { minimatch } from 'minimatch';
+import type ts from 'typescript';
+import { scriptExtensions } from './languages.js';
+import { loadCompiler } from './compiler.js';
+
+// Extensions of the TypeScript and JavaScript files that can be outlined
+export const outlineExtensions = scriptExtensions;
+
+// Text that takes the place of an elided function body
+const elidedBody = '{ ... }';
+
+// Function to check if a file is outlined, given the outline option (true for all files or glob patterns)
+export function shouldOutline(relativePath: string, outline: boolean | string[]): boolean {
+  if (!outline || !outlineExtensions.includes(path.extname(relativePath).toLowerCase())) {
+    return false;
+  }
+  if (outline === true) {
+    return true;
+  }
+  const posixPath = relativePath.split(path.sep).join('/');
+  return outline.some(pattern => minimatch(posixPath, pattern, { matchBase: !pattern.includes('/'), dot: true }));
+}
+
+// Function to get the script kind of a file from its extension
+function getScriptKind(ts: typeof import('typescript'), relativePath: string): ts.ScriptKind {
+  const ScriptKind = ts.ScriptKind;
+  switch (path.extname(relativePath).toLowerCase()) {
+    case '.tsx':
+      return ScriptKind.TSX;
+    case '.jsx':
+      return ScriptKind.JSX;
+    case '.js':
+    case '.mjs':
+    case '.cjs':
+      return ScriptKind.JS;
+    default:
+      return ScriptKind.TS;
+  }
+}
+
+// Function to check if a top-level statement is part of the API surface of a module
+function isDeclarationStatement(ts: typeof import('typescript'), statement: ts.Statement): boolean {
+  if (ts.isExpressionStatement(statement)) {
+    // CommonJS exports, such as `module.exports = ...` and `exports.name = ...`
+    const expression = statement.expression;
+    return (
+      ts.isBinaryExpression(expression) &&
+      expression.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+      /^(module\.)?exports\b/.test(expression.left.getText())
+    );
+  }
+  return (
+    ts.isImportDeclaration(statement) ||
+    ts.isImportEqualsDeclaration(statement) ||
+    ts.isExportDeclaration(statement) ||
+    ts.isExportAssignment(statement) ||
+    ts.isFunctionDeclaration(statement) ||
+    ts.isClassDeclaration(statement) ||
+    ts.isInterfaceDeclaration(statement) ||
+    ts.isTypeAliasDeclaration(statement) ||
+    ts.isEnumDeclaration(statement) ||
+    ts.isModuleDeclaration(statement) ||
+    ts.isVariableStatement(statement)
+  );
+}
+
+// Function to get the syntax errors of a parsed file, from a program made of that file alone
+function getSyntaxErrors(ts: typeof import('typescript'), sourceFile: ts.SourceFile): readonly ts.Diagnostic[] {
+  const host: ts.CompilerHost = {
+    getSourceFile: fileName => (fileName === sourceFile.fileName ? sourceFile : undefined),
+    getDefaultLibFileName: () => 'lib.d.ts',
+    writeFile: () => {},
+    getCurrentDirectory: () => '',
+    getCanonicalFileName: fileName => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: fileName => fileName === sourceFile.fileName,
+    readFile: () => undefined,
+  };
+  const program = ts.createProgram({
+    rootNames: [sourceFile.fileName],
+    options: { allowJs: true, noLib: true, noResolve: true, types: [] },
+    host,
+  });
+  return program.getSyntacticDiagnostics(sourceFile);
+}
+
+// Function to outline a TypeScript or JavaScript file: declarations and signatures are kept with their
+// JSDoc comments, function bodies are elided and other top-level statements are left out.
+// Returns null if the file doesn't parse.
+export async function outlineSource(relativePath: string, content: string): Promise<string | null> {
+  const ts = await loadCompiler();
+  const sourceFile = ts.createSourceFile(relativePath, content, ts.ScriptTarget.Latest, true, getScriptKind(ts, relativePath));
+
+  if (getSyntaxErrors(ts, sourceFile).length > 0) {
+    return null;
+  }
+
+  // Ranges of the text to replace, which never overlap
+  const edits: { start: number; end: number; text: string }[] = [];
+
+  const elideBodies = (node: ts.Node): void => {
+    const body = ts.isFunctionLike(node) || ts.isClassStaticBlockDeclaration(node)
+      ? (node as { body?: ts.Node }).body
+      : undefined;
+    if (body && ts.isBlock(body)) {
+      edits.push({ start: body.getStart(sourceFile), end: body.end, text: elidedBody });
+      return;
+    }
+    ts.forEachChild(node, elideBodies);
+  };
+
+  const outlineStatements = (statements: ts.NodeArray<ts.Statement>): void => {
+    for (const statement of statements) {
+      if (!isDeclarationStatement(ts, statement)) {
+        // The statement is removed together with its leading comments and line breaks
+        edits.push({ start: statement.getFullStart(), end: statement.end, text: '' });
+        continue;
+      }
+
+      // Namespaces are outlined like modules, including nested ones such as `namespace A.B {}`
+      let moduleBody = ts.isModuleDeclaration(statement) ? statement.body : undefined;
+      while (moduleBody && ts.isModuleDeclaration(moduleBody)) {
+        moduleBody = moduleBody.body;
+      }
+      if (moduleBody && ts.isModuleBlock(moduleBody)) {
+        outlineStatements(moduleBody.statements);
+      } else {
+        elideBodies(statement);
+      }
+    }
+  };
+
+  outlineStatements(sourceFile.statements);
+
+  let outlined = content;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    outlined = outlined.slice(0, edit.start) + edit.text + outlined.slice(edit.end);
+  }
+  return outlined;
+}
@@ -0,0 +1,198 @@
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import path from 'path';
+import { minimatch } from 'minimatch';
+
+// A source folder as given in the options, with an optional label
+export interface SourceRootOption {
+  path: string;
+  // Folder its files are grouped under in the archive (defaults to its path relative to the other source folders)
+  label?: string;
+}
+
+// A source folder archived together with the others
+export interface SourceRoot {
+  // Absolute path of the folder
+  path: string;
+  // Folder its files are grouped under in the archive, e.g., `web` for `web/src/index.ts`
+  // ('' when a single source folder is archived without a label)
+  label: string;
+}
+
+// Function to check if a path is inside a folder, or is the folder itself
+export function isInsideFolder(filePath: string, folder: string): boolean {
+  const relativePath = path.relative(folder, filePath);
+  return relativePath !== '..' && !relativePath.startsWith('..' + path.sep) && !path.isAbsolute(relativePath);
+}
+
+// Function to parse a source folder written as `label=path` on the command line or in txtzip.json
+export function parseSourceRoot(spec: string): SourceRootOption {
+  const separator = spec.indexOf('=');
+  return separator > 0 ? { label: spec.slice(0, separator), path: spec.slice(separator + 1) } : { path: spec };
+}
+
+// Function to read the packages entry of pnpm-workspace.yaml, either as a block or a flow sequence
+function parsePnpmWorkspace(content: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/\s+#.*$/, '').replace(/^#.*$/, '');
+    const key = line.match(/^packages\s*:\s*(.*)$/);
+    if (key) {
+      inPackages = true;
+      // Flow sequence, e.g., `packages: ['apps/*', 'packages/*']`
+      const flow = key[1].trim();
+      if (flow.startsWith('[')) {
+        patterns.push(...flow.replace(/^\[|\]$/g, '').split(','));
+        inPackages = false;
+      }
+      continue;
+    }
+    if (inPackages && /^\S/.test(line)) {
+      inPackages = false;
+    }
+    const item = inPackages ? line.match(/^\s*-\s*(.+)$/) : null;
+    if (item) {
+      patterns.push(item[1]);
+    }
+  }
+  return patterns.map(pattern => pattern.trim().replace(/^(['"])(.*)\1$/, '$2')).filter(Boolean);
+}
+
+// Function to check if a JSON value is an object
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Function to read the workspace patterns of a folder from package.json or pnpm-workspace.yaml, or null if it has none
+function readWorkspacePatterns(folder: string): string[] | null {
+  const pnpmWorkspace = path.join(folder, 'pnpm-workspace.yaml');
+  if (existsSync(pnpmWorkspace)) {
+    return parsePnpmWorkspace(readFileSync(pnpmWorkspace, 'utf8'));
+  }
+
+  const packageJsonPath = path.join(folder, 'package.json');
+  if (existsSync(packageJsonPath)) {
+    let packageJson: unknown;
+    try {
+      packageJson = JSON.parse(readFileSync(packageJsonPath, 'utf8'));
+    } catch (error: any) {
+      throw new Error(`Failed to parse ${packageJsonPath}: ${error?.message}`);
+    }
+    // npm and yarn list the patterns directly, yarn also as `{ "packages": [...] }`
+    const workspaces = isObject(packageJson) ? packageJson.workspaces : undefined;
+    const patterns = isObject(workspaces) ? workspaces.packages : workspaces;
+    if (Array.isArray(patterns)) {
+      return patterns.filter((pattern: unknown): pattern is string => typeof pattern === 'string');
+    }
+  }
+  return null;
+}
+
+// Function to find the workspace packages of a monorepo: the folders with a package.json that match its workspace
+// patterns, sorted by path
+export function findWorkspacePackages(folder: string): string[] {
+  const patterns = readWorkspacePatterns(folder);
+  if (!patterns || patterns.length === 0) {
+    throw new Error(`No workspaces found in ${folder} (expected package.json workspaces or pnpm-workspace.yaml)`);
+  }
+
+  const normalize = (pattern: string) => pattern.replace(/^\.\//, '').replace(/\/+$/, '');
+  const includePatterns = patterns.filter(pattern => !pattern.startsWith('!')).map(normalize);
+  const excludePatterns = patterns.filter(pattern => pattern.startsWith('!')).map(pattern => normalize(pattern.slice(1)));
+
+  const packages: string[] = [];
+  const walk = (dir: string) => {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      if (!entry.isDirectory() || entry.name === 'node_modules' || entry.name.startsWith('.')) {
+        continue;
+      }
+      const fullPath = path.join(dir, entry.name);
+      const posixPath = path.relative(folder, fullPath).split(path.sep).join('/');
+      if (excludePatterns.some(pattern => minimatch(posixPath, pattern))) {
+        continue;
+      }
+      if (includePatterns.some(pattern => minimatch(posixPath, pattern)) && existsSync(path.join(fullPath, 'package.json'))) {
+        packages.push(fullPath);
+      }
+      // Only descend into folders that can contain matches
+      if (includePatterns.some(pattern => minimatch(posixPath, pattern, { partial: true }))) {
+        walk(fullPath);
+      }
+    }
+  };
+  walk(folder);
+
+  if (packages.length === 0) {
+    throw new Error(`No workspace packages found in ${folder} for ${patterns.join(', ')}`);
+  }
+  return packages.sort();
+}
+
+// Function to find the deepest folder that contains all of the given folders
+function getCommonFolder(folders: string[]): string {
+  let common = folders[0];
+  for (const folder of folders.slice(1)) {
+    while (!isInsideFolder(folder, common)) {
+      common = path.dirname(common);
+    }
+  }
+  return common;
+}
+
+// Function to resolve the source folders to absolute paths with labels, replacing them with their workspace packages
+// if requested
+export function resolveSourceRoots(
+  source: string | (string | SourceRootOption)[] | undefined,
+  workspaces: boolean = false
+): SourceRoot[] {
+  const given = (Array.isArray(source) ? source : [source ?? '.'])
+    .map(root => (typeof root === 'string' ? { path: root } : root))
+    .map(root => ({ path: path.resolve(String(root.path)), label: root.label }));
+  if (given.length === 0) {
+    given.push({ path: path.resolve('.'), label: undefined });
+  }
+
+  // Workspace packages are labeled with their path in the monorepo, e.g., packages/shared
+  const roots = workspaces
+    ? given.flatMap(root => findWorkspacePackages(root.path).map(packagePath => ({
+      path: packagePath,
+      label: path.join(root.label ?? '', path.relative(root.path, packagePath)),
+    })))
+    : given;
+
+  // A single source folder keeps the paths of its files as they are, unless it is labeled
+  if (roots.length === 1 && !workspaces) {
+    return [{ path: roots[0].path, label: roots[0].label ? path.normalize(roots[0].label) : '' }];
+  }
+
+  for (const [i, root] of roots.entries()) {
+    const nested = roots.slice(i + 1).find(other => isInsideFolder(other.path, root.path) || isInsideFolder(root.path, other.path));
+    if (nested) {
+      throw new Error(`Source folders cannot be nested: ${root.path}, ${nested.path}`);
+    }
+  }
+
+  const commonFolder = getCommonFolder(roots.map(root => root.path));
+  const resolved = roots.map(root => ({
+    path: root.path,
+    label: path.normalize(root.label ?? path.relative(commonFolder, root.path)),
+  }));
+
+  for (const [i, root] of resolved.entries()) {
+    if (root.label === '.' || path.isAbsolute(root.label) || !isInsideFolder(root.label, '.')) {
+      throw new Error(`Invalid source label: ${root.label}`);
+    }
+    // Files of one source folder would be mixed up with those of another
+    const nested = resolved.slice(i + 1).find(other => isInsideFolder(other.label, root.label) || isInsideFolder(root.label, other.label));
+    if (nested) {
+      throw new Error(`Source labels must be distinct and not nested: ${root.label}, ${nested.label}`);
+    }
+  }
+  return resolved;
+}
+
+// Function to get the folder the source folders are archived from: the single source folder, or the folder
+// that contains all of them
+export function getSourceBase(roots: SourceRoot[]): string {
+  return getCommonFolder(roots.map(root => root.path));
+}
@@ -0,0 +1,184 @@
+import path from 'path';
+
+// What to do with files that contain secrets
+export const secretsModes = ['redact', 'skip-file', 'fail', 'off'] as const;
+
+export type SecretsMode = typeof secretsModes[number];
+
+// Rule that detects a kind of secret; when the pattern has a capture group, only the group is redacted
+export interface SecretRule {
+  name: string;
+  pattern: string | RegExp;
+}
+
+// A secret found in a file, without the secret itself
+export interface SecretFinding {
+  // Path relative to the source folder
+  relativePath: string;
+  // 1-based line of the secret (missing when the file name itself is sensitive)
+  line?: number;
+  // Name of the rule that matched
+  rule: string;
+  // Set when the secret is in the diff of the file, whose lines the line refers to
+  inDiff?: boolean;
+}
+
+// Built-in rules for common key and token formats
+export const builtInSecretRules: SecretRule[] = [
+  { name: 'private-key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY( BLOCK)?-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY( BLOCK)?-----/ },
+  { name: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { name: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{60,})\b/ },
+  { name: 'gitlab-token', pattern: /\bglpat-[A-Za-z0-9_-]{20,}\b/ },
+  { name: 'slack-token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/ },
+  { name: 'stripe-key', pattern: /\b[sr]k_live_[A-Za-z0-9]{20,}\b/ },
+  { name: 'google-api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/ },
+  { name: 'anthropic-api-key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/ },
+  { name: 'openai-api-key', pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{32,}/ },
+  { name: 'npm-token', pattern: /\bnpm_[A-Za-z0-9]{36}\b/ },
+  { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/ },
+  { name: 'url-credentials', pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/]+:([^\s@/]{3,})@/ },
+  {
+    name: 'password-assignment',
+    pattern: /\b(?:password|passwd|pwd|secret|api[_-]?key|access[_-]?token|auth[_-]?token|client[_-]?secret)["']?\s*[:=]\s*["']([^"'\s]{8,})["']/i,
+  },
+];
+
+// File names that hold credentials, whatever their content looks like
+const sensitiveFileRegex = /^(\.env(\..+)?|id_(rsa|dsa|ecdsa|ed25519)|\.netrc|\.pgpass|\.htpasswd|credentials|.+\.(pem|key|p12|pfx|keystore|jks))$/i;
+
+// Templates of .env files, which only list the variable names
+const envTemplateRegex = /^\.env\.(example|sample|template|dist|defaults)$/i;
+
+// Quoted strings that look like random keys when their entropy is high enough
+const highEntropyCandidateRegex = /["'`]([A-Za-z0-9+/_-]{32,}={0,2})["'`]/g;
+
+// Subresource integrity hashes, as written in lockfiles, which are random but not secret
+const integrityHashRegex = /^sha(?:1|256|384|512)-[A-Za-z0-9+/]+={0,2}$/;
+
+// Function to check if a file name is known to hold credentials
+export function isSensitiveFileName(relativePath: string): boolean {
+  const fileName = path.basename(relativePath);
+  return sensitiveFileRegex.test(fileName) && !envTemplateRegex.test(fileName);
+}
+
+// Function to compute the Shannon entropy of a string in bits per character
+export function shannonEntropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const char of text) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / text.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+// Function to compile a secret rule into a global regular expression
+function compileRule(rule: SecretRule): RegExp {
+  try {
+    const source = typeof rule.pattern === 'string' ? rule.pattern : rule.pattern.source;
+    const flags = typeof rule.pattern === 'string' ? '' : rule.pattern.flags.replace('g', '');
+    return new RegExp(source, flags + 'g');
+  } catch (error: any) {
+    throw new Error(`Invalid pattern in secret rule ${rule.name}: ${error?.message}`);
+  }
+}
+
+// A secret found in a text, with the range that is redacted
+interface SecretMatch {
+  rule: string;
+  start: number;
+  end: number;
+}
+
+// Function to find the secrets in a text, sorted by position and without overlaps
+function findSecrets(text: string, rules: SecretRule[]): SecretMatch[] {
+  const matches: SecretMatch[] = [];
+
+  for (const rule of rules) {
+    for (const match of text.matchAll(compileRule(rule))) {
+      // Redact only the captured value when the rule has a capture group (rules capture the value at the end)
+      const value = match[1] ?? match[0];
+      const start = match.index! + match[0].lastIndexOf(value);
+      const end = start + value.length;
+
+      // Skip values that were already redacted, e.g., in an archive that is archived again
+      if (end > start && !value.startsWith('[REDACTED:')) {
+        matches.push({ rule: rule.name, start, end });
+      }
+    }
+  }
+
+  for (const match of text.matchAll(highEntropyCandidateRegex)) {
+    const value = match[1];
+    const isMixed = /[a-z]/.test(value) && /[A-Z]/.test(value) && /[0-9]/.test(value);
+    if (isMixed && !integrityHashRegex.test(value) && shannonEntropy(value) >= 4.5) {
+      const start = match.index! + 1;
+      matches.push({ rule: 'high-entropy-string', start, end: start + value.length });
+    }
+  }
+
+  // When matches overlap, keep the one that starts first
+  matches.sort((a, b) => a.start - b.start || b.end - a.end);
+  const kept: SecretMatch[] = [];
+  for (const match of matches) {
+    if (kept.length === 0 || match.start >= kept[kept.length - 1].end) {
+      kept.push(match);
+    }
+  }
+  return kept;
+}
+
+// Function to get the 1-based line of a position in a text
+function getLineNumber(text: string, index: number): number {
+  let line = 1;
+  for (let i = text.indexOf('\n'); i !== -1 && i < index; i = text.indexOf('\n', i + 1)) {
+    line++;
+  }
+  return line;
+}
+
+// Function to scan a file for secrets, returning the findings and the content with every secret redacted
+export function scanSecrets(
+  relativePath: string,
+  content: string,
+  rules: SecretRule[] = builtInSecretRules
+): { findings: SecretFinding[]; redacted: string } {
+  if (isSensitiveFileName(relativePath)) {
+    return { findings: [{ relativePath, rule: 'sensitive-file-name' }], redacted: '' };
+  }
+
+  const matches = findSecrets(content, rules);
+  let redacted = content;
+  for (const match of [...matches].reverse()) {
+    redacted = redacted.slice(0, match.start) + `[REDACTED:${match.rule}]` + redacted.slice(match.end);
+  }
+
+  return {
+    findings: matches.map(match => ({ relativePath, line: getLineNumber(content, match.start), rule: match.rule })),
+    redacted,
+  };
+}
+
+// Function to scan the diff of a file for secrets, returning the findings and the diff with every secret redacted
+export function scanDiffSecrets(
+  relativePath: string,
+  diff: string,
+  rules: SecretRule[] = builtInSecretRules
+): { findings: SecretFinding[]; redacted: string } {
+  // The file name was checked with the content of the file
+  const { findings, redacted } = scanSecrets('', diff, rules);
+  return { findings: findings.map(finding => ({ ...finding, relativePath, inDiff: true })), redacted };
+}
+
+// Function to redact the secrets in a text, such as the diff of a file
+export function redactSecrets(text: string, rules: SecretRule[] = builtInSecretRules): string {
+  return scanSecrets('', text, rules).redacted;
+}
+
+// Function to check if a secrets mode name is supported
+export function isSecretsMode(mode: string): mode is SecretsMode {
+  return (secretsModes as readonly string[]).includes(mode);
+}
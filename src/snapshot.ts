@@ -0,0 +1,205 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { writeFile } from 'fs/promises';
+import path from 'path';
+import type { ArchiveFile } from './files.js';
+import type { ManifestEntry } from './archive.js';
+
+// Version of the manifest file format
+export const snapshotVersion = 1;
+
+// A file as it was sent in an archive
+export interface SnapshotEntry {
+  // Path relative to the source folder
+  path: string;
+  // Size of the archived content in bytes
+  size: number;
+  // SHA-256 hash of the archived content
+  hash: string;
+  // Indexes of the chunks of the archive that contain the file; empty for files sent in an earlier archive
+  chunks: number[];
+}
+
+// Manifest of the files a recipient has after receiving an archive, written next to the output
+export interface Snapshot {
+  version: number;
+  files: SnapshotEntry[];
+}
+
+// Differences between the files of a manifest and the files being archived
+export interface SnapshotChanges {
+  added: string[];
+  modified: string[];
+  deleted: string[];
+  // Files moved without changing their content
+  renamed: { from: string; to: string }[];
+  unchanged: string[];
+}
+
+// Function to get the path of the manifest written next to an output file, e.g., `txtzip.manifest.json`
+export function getManifestPath(outputFile: string): string {
+  const resolvedOutputFile = path.resolve(outputFile);
+  const ext = path.extname(resolvedOutputFile);
+  return path.join(path.dirname(resolvedOutputFile), `${path.basename(resolvedOutputFile, ext)}.manifest.json`);
+}
+
+// Function to hash the archived content of a file
+export function getContentHash(content: string): string {
+  return createHash('sha256').update(content, 'utf8').digest('hex');
+}
+
+// Function to hash the archived content of each file, by path
+export function getContentHashes(files: ArchiveFile[]): Map<string, string> {
+  return new Map(files.map(file => [file.relativePath, getContentHash(file.content)]));
+}
+
+// Function to check if a JSON value is an object
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Function to check if a JSON value is a non-negative integer
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+// Function to read a file entry of a manifest, returning a description of the problem if it isn't valid
+function readSnapshotEntry(entry: unknown): SnapshotEntry | string {
+  if (!isObject(entry)) {
+    return 'must be an object';
+  }
+  const { path: entryPath, size, hash, chunks } = entry;
+  if (typeof entryPath !== 'string' || entryPath === '') {
+    return 'needs a path';
+  }
+  if (typeof hash !== 'string' || !/^[0-9a-f]{64}$/.test(hash)) {
+    return `(${entryPath}) needs a SHA-256 hash`;
+  }
+  if (!isCount(size)) {
+    return `(${entryPath}) needs a size in bytes`;
+  }
+  if (!Array.isArray(chunks) || !chunks.every(isCount)) {
+    return `(${entryPath}) needs the indexes of its chunks`;
+  }
+  return { path: entryPath, size, hash, chunks };
+}
+
+// Function to read a manifest written with an earlier archive
+export function readSnapshot(file: string): Snapshot {
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`Failed to read manifest ${file}: ${error?.message ?? error}`);
+  }
+
+  if (!isObject(data) || data.version !== snapshotVersion || !Array.isArray(data.files)) {
+    throw new Error(`Invalid manifest ${file}: expected a version ${snapshotVersion} manifest written by txtzip`);
+  }
+  const files: SnapshotEntry[] = [];
+  for (const [index, entry] of data.files.entries()) {
+    const snapshotEntry = readSnapshotEntry(entry);
+    if (typeof snapshotEntry === 'string') {
+      throw new Error(`Invalid manifest ${file}: files[${index}] ${snapshotEntry}`);
+    }
+    files.push(snapshotEntry);
+  }
+  return { version: snapshotVersion, files };
+}
+
+// Function to write a manifest next to the output
+export async function writeSnapshot(file: string, snapshot: Snapshot): Promise<void> {
+  await writeFile(file, JSON.stringify(snapshot, null, 2) + '\n', 'utf8');
+}
+
+// Function to compare the files being archived with a manifest, keeping only the added and modified files. A deleted
+// file whose content shows up again under a new path is reported as renamed rather than sent again.
+export function diffSnapshot(
+  files: ArchiveFile[],
+  previous: Snapshot,
+  hashes: Map<string, string>
+): { files: ArchiveFile[]; changes: SnapshotChanges } {
+  const previousHashes = new Map(previous.files.map(entry => [entry.path, entry.hash]));
+  const changes: SnapshotChanges = { added: [], modified: [], deleted: [], renamed: [], unchanged: [] };
+  const changedFiles: ArchiveFile[] = [];
+
+  for (const file of files) {
+    const previousHash = previousHashes.get(file.relativePath);
+    if (previousHash === undefined) {
+      changes.added.push(file.relativePath);
+      changedFiles.push(file);
+    } else if (previousHash !== hashes.get(file.relativePath)) {
+      changes.modified.push(file.relativePath);
+      changedFiles.push(file);
+    } else {
+      changes.unchanged.push(file.relativePath);
+    }
+  }
+
+  // Added files with the content of a deleted file are renames, matched in the order of the files
+  const addedByHash = new Map<string, string[]>();
+  for (const addedPath of changes.added) {
+    const hash = hashes.get(addedPath)!;
+    addedByHash.set(hash, [...(addedByHash.get(hash) ?? []), addedPath]);
+  }
+  const renamedPaths = new Set<string>();
+  for (const entry of previous.files) {
+    if (hashes.has(entry.path)) {
+      continue;
+    }
+    const to = addedByHash.get(entry.hash)?.shift();
+    if (to !== undefined) {
+      changes.renamed.push({ from: entry.path, to });
+      renamedPaths.add(to);
+    } else {
+      changes.deleted.push(entry.path);
+    }
+  }
+
+  changes.added = changes.added.filter(addedPath => !renamedPaths.has(addedPath));
+  return { files: changedFiles.filter(file => !renamedPaths.has(file.relativePath)), changes };
+}
+
+// Function to create the manifest of an archive. Files left out of a delta archive because they haven't changed are
+// recorded as sent, while files dropped to stay within the token budget keep their entry from the earlier manifest, if
+// any, so the next delta archive sends them again.
+export function createSnapshot(
+  files: ArchiveFile[],
+  manifest: ManifestEntry[],
+  hashes: Map<string, string>,
+  previous: Snapshot | null,
+  changes: SnapshotChanges | null
+): Snapshot {
+  const manifestEntries = new Map(manifest.map(entry => [entry.path, entry]));
+  const previousEntries = new Map((previous?.files ?? []).map(entry => [entry.path, entry]));
+  const sentPaths = new Set([...(changes?.unchanged ?? []), ...(changes?.renamed ?? []).map(({ to }) => to)]);
+  const entries: SnapshotEntry[] = [];
+
+  for (const file of files) {
+    const hash = hashes.get(file.relativePath)!;
+    const size = Buffer.byteLength(file.content, 'utf8');
+    const manifestEntry = manifestEntries.get(file.relativePath);
+    const previousEntry = previousEntries.get(file.relativePath);
+
+    if (manifestEntry) {
+      entries.push({ path: file.relativePath, size, hash, chunks: manifestEntry.chunks });
+    } else if (sentPaths.has(file.relativePath)) {
+      entries.push({ path: file.relativePath, size, hash, chunks: [] });
+    } else if (previousEntry) {
+      entries.push({ ...previousEntry, chunks: [] });
+    }
+  }
+  return { version: snapshotVersion, files: entries };
+}
+
+// Function to format the deleted and renamed files of a delta archive
+export function formatSnapshotChanges(changes: SnapshotChanges): string {
+  const lines: string[] = [];
+  if (changes.deleted.length > 0) {
+    lines.push('Deleted:', ...changes.deleted.map(deletedPath => `  ${deletedPath}`));
+  }
+  if (changes.renamed.length > 0) {
+    lines.push('Renamed:', ...changes.renamed.map(({ from, to }) => `  ${from} -> ${to}`));
+  }
+  return lines.length > 0 ? lines.join('\n') : 'No files were deleted or renamed.';
+}
@@ -0,0 +1,83 @@
+import path from 'path';
+import { StreamedArchiveResult } from './archive.js';
+import { SkippedFile } from './files.js';
+import { SecretFinding } from './secrets.js';
+import { UnresolvedImport } from './imports.js';
+
+// Size, line count and estimated tokens of an included file
+export interface FileStats {
+  path: string;
+  size: number;
+  lines: number;
+  tokens: number;
+}
+
+// Totals of the included files below a folder, including its subfolders
+export interface DirectoryStats extends FileStats {
+  files: number;
+}
+
+// Statistics of an archive, as printed by a dry run or written as a JSON report
+export interface ArchiveStats {
+  // Totals of all included files
+  totals: DirectoryStats;
+  // Number of output files the archive is split into
+  chunkCount: number;
+  // Paths the output files are written to
+  outputFiles: string[];
+  files: FileStats[];
+  directories: DirectoryStats[];
+  // Largest included files, by size
+  largest: FileStats[];
+  dropped: string[];
+  skipped: SkippedFile[];
+  secrets: SecretFinding[];
+  unresolvedImports: UnresolvedImport[];
+}
+
+// Number of files listed as the largest ones
+const largestFileCount = 10;
+
+// Function to compute the statistics of an archive, per file and per folder
+export function getArchiveStats(result: StreamedArchiveResult, outputFiles: string[]): ArchiveStats {
+  const files: FileStats[] = result.manifest.map(entry => ({
+    path: entry.path,
+    size: entry.size,
+    lines: entry.lines,
+    tokens: entry.tokens,
+  }));
+
+  const totals: DirectoryStats = { path: '.', files: 0, size: 0, lines: 0, tokens: 0 };
+  const directories = new Map<string, DirectoryStats>();
+
+  for (const file of files) {
+    // Every folder above the file counts it, so each folder's totals include its subfolders
+    const folders: DirectoryStats[] = [totals];
+    for (let dir = path.posix.dirname(file.path.split(path.sep).join('/')); dir !== '.'; dir = path.posix.dirname(dir)) {
+      if (!directories.has(dir)) {
+        directories.set(dir, { path: dir, files: 0, size: 0, lines: 0, tokens: 0 });
+      }
+      folders.push(directories.get(dir)!);
+    }
+
+    for (const folder of folders) {
+      folder.files++;
+      folder.size += file.size;
+      folder.lines += file.lines;
+      folder.tokens += file.tokens;
+    }
+  }
+
+  return {
+    totals,
+    chunkCount: result.chunkSizes.length,
+    outputFiles,
+    files,
+    directories: [...directories.values()].sort((a, b) => a.path.localeCompare(b.path)),
+    largest: [...files].sort((a, b) => b.size - a.size).slice(0, largestFileCount),
+    dropped: result.dropped,
+    skipped: result.skipped,
+    secrets: result.secrets,
+    unresolvedImports: result.unresolvedImports,
+  };
+}
@@ -0,0 +1,93 @@
+import path from 'path';
+import { sourceArchiveExtensions } from './unpack.js';
+
+// Values that can be used in header and footer templates as `{{name}}`
+export interface TemplateVariables {
+  // Number of files in the archive
+  fileCount: number;
+  // Size of the file contents in bytes
+  totalSize: number;
+  // 1-based number of the output file, and the number of output files
+  part: number;
+  partCount: number;
+  // File tree of the archived files
+  tree: string;
+  // Name of the project, which defaults to the name of the source folder
+  projectName: string;
+}
+
+// Names of the template variables
+export const templateVariableNames: (keyof TemplateVariables)[] = [
+  'fileCount',
+  'totalSize',
+  'part',
+  'partCount',
+  'tree',
+  'projectName',
+];
+
+const variableRegex = /\{\{\s*([^{}\s]*)\s*\}\}/g;
+
+// Preamble of every part of a multi-part archive but the last, so the model waits for the rest
+export const partPreamble =
+  'This is part {{part}} of {{partCount}} of {{projectName}}. Wait until you have received all {{partCount}} parts '
+  + 'before answering; until then, only confirm that you received this part.';
+
+// Preamble of the last part of a multi-part archive
+export const lastPartPreamble = 'This is part {{part}} of {{partCount}} of {{projectName}}, the last part.';
+
+// Instruction at the end of the last part of a multi-part archive
+export const finalInstruction =
+  'All {{partCount}} parts of {{projectName}} have now been sent. You can answer now, using the content of every part.';
+
+// Function to check that a template only uses known variables
+export function validateTemplate(template: string, name: string): void {
+  for (const [variable, variableName] of template.matchAll(variableRegex)) {
+    if (!(templateVariableNames as string[]).includes(variableName)) {
+      throw new Error(
+        `Unknown variable ${variable} in the ${name} template; available variables: ${templateVariableNames.join(', ')}`
+      );
+    }
+  }
+}
+
+// Function to fill in the variables of a template
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+  return template.replace(variableRegex, (variable, name: string) =>
+    (templateVariableNames as string[]).includes(name) ? String(variables[name as keyof TemplateVariables]) : variable
+  );
+}
+
+// Function to get the default project name from the source folder, or from a source archive without its extension
+export function getDefaultProjectName(sourceFolder: string): string {
+  const name = path.basename(sourceFolder);
+  const ext = sourceArchiveExtensions.find(archiveExt => name.toLowerCase().endsWith(archiveExt));
+  return ext ? name.slice(0, -ext.length) : name;
+}
+
+// Instructions at the start and end of an output file; either may be empty
+export interface ChunkInstructions {
+  top: string;
+  bottom: string;
+}
+
+// Function to render the instructions of an output file: the part preamble and the header template at the start, and
+// the footer template and, in the last part, the final instruction at the end
+export function renderChunkInstructions(
+  templates: { header: string; footer: string },
+  variables: TemplateVariables,
+  isMultiPart: boolean
+): ChunkInstructions {
+  const isLastPart = variables.part === variables.partCount;
+  const preamble = isMultiPart ? (isLastPart ? lastPartPreamble : partPreamble) : '';
+  const closing = isMultiPart && isLastPart ? finalInstruction : '';
+
+  const join = (sections: string[]) => sections
+    .map(section => renderTemplate(section, variables).trimEnd())
+    .filter(Boolean)
+    .join('\n\n');
+  return {
+    top: join([preamble, templates.header]),
+    bottom: join([templates.footer, closing]),
+  };
+}
@@ -0,0 +1,78 @@
+// Encodings supported by the built-in token estimator
+export const tokenEncodings = ['cl100k', 'o200k', 'p50k', 'chars'] as const;
+
+export type TokenEncoding = typeof tokenEncodings[number];
+
+// Average number of characters per token for each kind of text piece
+interface EncodingProfile {
+  letters: number;
+  digits: number;
+  punctuation: number;
+  whitespace: number;
+}
+
+const encodingProfiles: { [key in Exclude<TokenEncoding, 'chars'>]: EncodingProfile } = {
+  cl100k: { letters: 5, digits: 3, punctuation: 2, whitespace: 8 },
+  o200k: { letters: 5.5, digits: 3, punctuation: 2.5, whitespace: 8 },
+  p50k: { letters: 4.5, digits: 1.5, punctuation: 1.5, whitespace: 4 },
+};
+
+// Splits text roughly the way BPE tokenizers pre-tokenize it: words, numbers, punctuation runs and whitespace
+const pieceRegex = /'(?:[sdmt]|ll|ve|re)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}+| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+/gu;
+
+// Function to check if a token encoding name is supported
+export function isTokenEncoding(encoding: string): encoding is TokenEncoding {
+  return (tokenEncodings as readonly string[]).includes(encoding);
+}
+
+// Function to estimate the number of tokens in a text without loading a tokenizer vocabulary
+export function estimateTokens(text: string, encoding: TokenEncoding = 'cl100k'): number {
+  if (!text) return 0;
+  if (encoding === 'chars') {
+    return Math.ceil(text.length / 4);
+  }
+
+  const profile = encodingProfiles[encoding];
+  let tokens = 0;
+
+  for (const [piece] of text.matchAll(pieceRegex)) {
+    // A single leading space is merged into the following token
+    const body = piece.length > 1 ? piece.replace(/^[ \t]/, '') : piece;
+    const first = body.trimStart()[0] ?? ' ';
+    let perToken: number;
+
+    if (/\p{L}/u.test(body)) {
+      // Non-ASCII letters are split into far more tokens than ASCII words
+      if (/[^\x00-\x7f]/.test(body)) {
+        tokens += Math.ceil(Buffer.byteLength(body, 'utf8') / 3);
+        continue;
+      }
+      perToken = profile.letters;
+    } else if (/\p{N}/u.test(first)) {
+      perToken = profile.digits;
+    } else if (/\s/.test(first)) {
+      perToken = profile.whitespace;
+    } else {
+      perToken = profile.punctuation;
+    }
+
+    tokens += Math.max(1, Math.ceil(body.length / perToken));
+  }
+
+  return tokens;
+}
+
+// Function to get the most characters a single estimated token covers, so a text always has at least its length divided
+// by this many tokens
+export function getMaxTokenLength(encoding: TokenEncoding = 'cl100k'): number {
+  if (encoding === 'chars') {
+    return 4;
+  }
+  // A piece can start with a space that is merged into its first token
+  return Math.max(...Object.values(encodingProfiles[encoding])) + 1;
+}
+
+// Function to format a token count for display (e.g., 12,345)
+export function formatTokens(tokens: number): string {
+  return tokens.toLocaleString('en-US');
+}
@@ -0,0 +1,140 @@
+import path from 'path';
+import { minimatch } from 'minimatch';
+import { isMarkdownExtension } from './languages.js';
+import { CommentSyntax, Segment, getCommentSyntax, splitSegments, stripComments } from './comments.js';
+
+// Content transforms applied to a file before it is archived
+export interface ContentTransforms {
+  stripEmptyLines: boolean;
+  stripComments: boolean;
+  compactIndent: boolean;
+}
+
+// Transforms for the files matching a glob pattern, overriding the global transforms
+export interface TransformRule {
+  // Glob patterns of the files the rule applies to (patterns without a slash match in every folder)
+  files: string | string[];
+  stripEmptyLines?: boolean;
+  stripComments?: boolean;
+  compactIndent?: boolean;
+}
+
+// Function to get the transforms of a file, applying the matching rules in order on top of the global transforms
+export function getFileTransforms(
+  relativePath: string,
+  transforms: ContentTransforms,
+  rules: TransformRule[]
+): ContentTransforms {
+  const result = { ...transforms };
+  const posixPath = relativePath.split(path.sep).join('/');
+
+  for (const rule of rules) {
+    const patterns = Array.isArray(rule.files) ? rule.files : [rule.files];
+    const matches = patterns.some(pattern => minimatch(posixPath, pattern, { matchBase: !pattern.includes('/'), dot: true }));
+    if (matches) {
+      result.stripEmptyLines = rule.stripEmptyLines ?? result.stripEmptyLines;
+      result.stripComments = rule.stripComments ?? result.stripComments;
+      result.compactIndent = rule.compactIndent ?? result.compactIndent;
+    }
+  }
+
+  return result;
+}
+
+// Function to find the lines that start inside a string literal, whose whitespace is part of the string
+function getLinesInStrings(content: string, segments: Segment[]): Set<number> {
+  const lines = new Set<number>();
+  let line = 0;
+  let segmentIndex = 0;
+
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] !== '\n') {
+      continue;
+    }
+    line++;
+    while (segmentIndex < segments.length && segments[segmentIndex].end <= i) {
+      segmentIndex++;
+    }
+    const segment = segments[segmentIndex];
+    if (segment && segment.kind === 'string' && segment.start <= i) {
+      lines.add(line);
+    }
+  }
+
+  return lines;
+}
+
+// Function to strip empty lines, keeping those inside strings such as docstrings and template literals
+function stripEmptyLines(content: string, ext: string, syntax: CommentSyntax | null): string {
+  const lines = content.split('\n');
+
+  // Blank lines separate paragraphs and lists in Markdown, so runs of them are only collapsed to one
+  if (isMarkdownExtension(ext)) {
+    return lines.filter((line, index) => line.trim() !== '' || index === 0 || lines[index - 1].trim() !== '').join('\n');
+  }
+
+  const linesInStrings = syntax ? getLinesInStrings(content, splitSegments(content, syntax)) : new Set<number>();
+  return lines.filter((line, index) => line.trim() !== '' || linesInStrings.has(index)).join('\n');
+}
+
+// Function to compute the greatest common divisor of two numbers
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+// Function to shrink each indentation level to a single space, keeping the relative structure
+function compactIndentation(content: string, syntax: CommentSyntax | null): string {
+  const lines = content.split('\n');
+  const segments = syntax ? splitSegments(content, syntax) : [];
+  const linesInStrings = getLinesInStrings(content, segments);
+
+  // The indentation unit is the largest width that divides every space indentation, so no two levels merge;
+  // lines that continue a comment, such as the " * " lines of doc comments, don't count
+  let unit = 0;
+  let lineStart = 0;
+  let segmentIndex = 0;
+  for (const [index, line] of lines.entries()) {
+    const indent = line.match(/^ */)![0].length;
+    while (segmentIndex < segments.length && segments[segmentIndex].end <= lineStart + indent) {
+      segmentIndex++;
+    }
+    const segment = segments[segmentIndex];
+    const inComment = segment !== undefined && segment.kind === 'comment' && segment.start < lineStart + indent;
+    if (indent > 0 && indent < line.length && !linesInStrings.has(index) && !inComment) {
+      unit = gcd(unit, indent);
+    }
+    lineStart += line.length + 1;
+  }
+
+  return lines
+    .map((line, index) => {
+      if (linesInStrings.has(index)) {
+        return line;
+      }
+      const indent = line.match(/^[ \t]*/)![0];
+      if (unit <= 1 || indent.includes('\t')) {
+        return line;
+      }
+      return ' '.repeat(Math.floor(indent.length / unit)) + line.slice(indent.length);
+    })
+    .join('\n');
+}
+
+// Function to apply the content transforms of a file
+export function transformContent(relativePath: string, content: string, transforms: ContentTransforms): string {
+  const ext = path.extname(relativePath);
+  const syntax = getCommentSyntax(ext);
+
+  if (transforms.stripComments && syntax) {
+    content = stripComments(content, syntax);
+  }
+  if (transforms.stripEmptyLines) {
+    content = stripEmptyLines(content, ext, syntax);
+  }
+  // Indentation is part of the syntax of Markdown, such as nested lists and code blocks
+  if (transforms.compactIndent && !isMarkdownExtension(ext)) {
+    content = compactIndentation(content, syntax);
+  }
+
+  return content;
+}
@@ -0,0 +1,86 @@
+import path from 'path';
+
+// Tree node interface
+export interface TreeNode {
+  name: string;
+  children: TreeNode[];
+  isFile: boolean;
+}
+
+// Function to build the tree structure from file paths
+export function buildTree(paths: string[]): TreeNode {
+  const root: TreeNode = { name: '', children: [], isFile: false };
+
+  for (const relPath of paths) {
+    const parts = relPath.split(path.sep);
+    let currentNode = root;
+
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i];
+      let childNode = currentNode.children.find(child => child.name === part);
+      if (!childNode) {
+        childNode = {
+          name: part,
+          children: [],
+          isFile: i === parts.length - 1, // If last part, it's a file
+        };
+        currentNode.children.push(childNode);
+      }
+      currentNode = childNode;
+    }
+  }
+  return root;
+}
+
+// Function to render the tree into a string
+export function renderTree(
+  node: TreeNode,
+  prefix: string = '',
+  isLast: boolean = true,
+  isRoot: boolean = true,
+  sortChildren: boolean = true
+): string[] {
+  const lines: string[] = [];
+  const connector = isRoot ? '' : (isLast ? '└── ' : '├── ');
+  if (node.name) {
+    lines.push(prefix + connector + node.name + (node.isFile ? '' : path.sep));
+  }
+
+  const newPrefix = prefix + (isRoot ? '' : (isLast ? '    ' : '│   '));
+
+  if (sortChildren) {
+    node.children.sort((a, b) => {
+      // Directories first
+      if (!a.isFile && b.isFile) return -1;
+      if (a.isFile && !b.isFile) return 1;
+      return a.name.localeCompare(b.name);
+    });
+  }
+
+  node.children.forEach((child, index) => {
+    const isLastChild = index === node.children.length - 1;
+    const childLines = renderTree(child, newPrefix, isLastChild, false, sortChildren);
+    lines.push(...childLines);
+  });
+
+  return lines;
+}
+
+// Function to render the tree of the given relative file paths into a string; with keepOrder, entries are listed
+// in the order their files first appear instead of sorted
+export function renderFileTree(relativePaths: string[], keepOrder: boolean = false): string {
+  const tree = buildTree(relativePaths);
+  if (keepOrder) {
+    return renderTree(tree, '', true, true, false).join('\n');
+  }
+
+  // Sort the root-level children for consistent ordering
+  tree.children.sort((a, b) => {
+    // Directories first
+    if (!a.isFile && b.isFile) return -1;
+    if (a.isFile && !b.isFile) return 1;
+    return a.name.localeCompare(b.name);
+  });
+
+  return renderTree(tree, '', true, true).join('\n');
+}
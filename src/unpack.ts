@@ -0,0 +1,338 @@
+import { readFile } from 'fs/promises';
+import { statSync } from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+
+// Extensions of the archives that can be used as a source folder
+export const sourceArchiveExtensions = ['.zip', '.tar', '.tar.gz', '.tgz'];
+
+// A file read from a source archive
+export interface SourceArchiveEntry {
+  // Path of the entry inside the archive, with forward slashes
+  name: string;
+  // Content of the entry, or an empty buffer if it couldn't be read
+  data: Buffer;
+  // Last modification time recorded in the archive
+  modified: Date;
+  // Why the entry couldn't be read, e.g., because it is encrypted or corrupt
+  error?: string;
+}
+
+// The files of a .zip or .tar(.gz) archive, read into memory
+export interface SourceArchive {
+  // Absolute path of the archive file
+  path: string;
+  // Entries by their path below the archive path, e.g., `/drops/app.zip/src/index.ts`
+  entries: Map<string, SourceArchiveEntry>;
+}
+
+// Function to check if a source path is a .zip, .tar or .tar.gz archive instead of a folder
+export function isSourceArchive(sourcePath: string): boolean {
+  const name = path.basename(sourcePath).toLowerCase();
+  if (!sourceArchiveExtensions.some(ext => name.endsWith(ext))) {
+    return false;
+  }
+  return statSync(sourcePath, { throwIfNoEntry: false })?.isFile() ?? false;
+}
+
+// Table for the CRC-32 checksums that zip entries are verified with
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+// Function to compute the CRC-32 checksum of a buffer
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Function to normalize the path of an entry, or return null if it points outside the archive
+function normalizeEntryName(name: string): string | null {
+  const parts = name.split(/[\\/]+/).filter(part => part !== '' && part !== '.');
+  if (parts.length === 0 || parts.includes('..') || /^[a-zA-Z]:$/.test(parts[0])) {
+    return null;
+  }
+  return parts.join('/');
+}
+
+// Function to convert an MS-DOS date and time, as stored in zip files, to a date
+function fromDosDateTime(date: number, time: number): Date {
+  return new Date(
+    1980 + (date >> 9),
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    time >> 11,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  );
+}
+
+// Function to find the end of central directory record of a zip file, which is followed by a comment of up to 64 KiB
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 22 - 0xffff); offset--) {
+    if (buffer.readUInt32LE(offset) === 0x06054b50) {
+      return offset;
+    }
+  }
+  return -1;
+}
+
+// Function to read the entries of a zip file from its central directory
+function readZipEntries(buffer: Buffer): SourceArchiveEntry[] {
+  const endOffset = findEndOfCentralDirectory(buffer);
+  if (endOffset === -1) {
+    throw new Error('Not a zip archive, or its central directory is missing');
+  }
+  let entryCount = buffer.readUInt16LE(endOffset + 10);
+  let directoryOffset = buffer.readUInt32LE(endOffset + 16);
+
+  // Zip64 archives keep the counts and offsets that don't fit in the end record in a record of their own
+  const locatorOffset = endOffset - 20;
+  if (locatorOffset >= 0 && buffer.readUInt32LE(locatorOffset) === 0x07064b50) {
+    const zip64EndOffset = Number(buffer.readBigUInt64LE(locatorOffset + 8));
+    if (zip64EndOffset + 56 > buffer.length || buffer.readUInt32LE(zip64EndOffset) !== 0x06064b50) {
+      throw new Error('Corrupt zip64 end of central directory record');
+    }
+    entryCount = Number(buffer.readBigUInt64LE(zip64EndOffset + 32));
+    directoryOffset = Number(buffer.readBigUInt64LE(zip64EndOffset + 48));
+  }
+
+  const entries: SourceArchiveEntry[] = [];
+  let offset = directoryOffset;
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error(`Corrupt zip central directory at byte ${offset}`);
+    }
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const modified = fromDosDateTime(buffer.readUInt16LE(offset + 14), buffer.readUInt16LE(offset + 12));
+    const checksum = buffer.readUInt32LE(offset + 16);
+    let compressedSize = buffer.readUInt32LE(offset + 20);
+    let size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    let localOffset = buffer.readUInt32LE(offset + 42);
+    // Names are UTF-8 when flagged, and in practice usually are anyway
+    const rawName = buffer.toString(flags & 0x800 ? 'utf8' : 'latin1', offset + 46, offset + 46 + nameLength);
+
+    // Sizes and offsets that don't fit in 32 bits are in the zip64 extra field, in this order
+    let extraOffset = offset + 46 + nameLength;
+    const extraEnd = extraOffset + extraLength;
+    while (extraOffset + 4 <= extraEnd) {
+      const headerId = buffer.readUInt16LE(extraOffset);
+      const dataSize = buffer.readUInt16LE(extraOffset + 2);
+      if (headerId === 0x0001) {
+        let fieldOffset = extraOffset + 4;
+        const readField = () => {
+          const value = Number(buffer.readBigUInt64LE(fieldOffset));
+          fieldOffset += 8;
+          return value;
+        };
+        if (size === 0xffffffff) size = readField();
+        if (compressedSize === 0xffffffff) compressedSize = readField();
+        if (localOffset === 0xffffffff) localOffset = readField();
+      }
+      extraOffset += 4 + dataSize;
+    }
+    offset = extraEnd + commentLength;
+
+    const name = normalizeEntryName(rawName);
+    if (rawName.endsWith('/') || name === null) {
+      // Folders are implied by the paths of their files, and paths outside the archive are never read
+      continue;
+    }
+
+    const entry: SourceArchiveEntry = { name, data: Buffer.alloc(0), modified };
+    if (flags & 0x1) {
+      entries.push({ ...entry, error: 'encrypted entry' });
+      continue;
+    }
+    if (method !== 0 && method !== 8) {
+      entries.push({ ...entry, error: `unsupported compression method ${method}` });
+      continue;
+    }
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== 0x04034b50) {
+      entries.push({ ...entry, error: 'corrupt entry: missing local file header' });
+      continue;
+    }
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    if (dataStart + compressedSize > buffer.length) {
+      entries.push({ ...entry, error: 'corrupt entry: truncated data' });
+      continue;
+    }
+
+    try {
+      const compressed = buffer.subarray(dataStart, dataStart + compressedSize);
+      const data = method === 8 ? zlib.inflateRawSync(compressed) : Buffer.from(compressed);
+      if (data.length !== size || crc32(data) !== checksum) {
+        throw new Error('checksum mismatch');
+      }
+      entries.push({ ...entry, data });
+    } catch (error: any) {
+      entries.push({ ...entry, error: `corrupt entry: ${error?.message ?? error}` });
+    }
+  }
+  return entries;
+}
+
+// Function to read a NUL-terminated string field of a tar header
+function readTarString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.toString('utf8', 0, end === -1 ? length : end);
+}
+
+// Function to read a numeric field of a tar header, written in octal or, for large values, in base-256
+function readTarNumber(header: Buffer, offset: number, length: number): number {
+  if (header[offset] & 0x80) {
+    let value = header[offset] & 0x7f;
+    for (let i = 1; i < length; i++) {
+      value = value * 256 + header[offset + i];
+    }
+    return value;
+  }
+  const text = readTarString(header, offset, length).trim();
+  return text === '' ? 0 : parseInt(text, 8);
+}
+
+// Function to check the checksum of a tar header, which is computed with the checksum field filled with spaces
+function isValidTarHeader(header: Buffer): boolean {
+  let sum = 0;
+  for (let i = 0; i < 512; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  return sum === readTarNumber(header, 148, 8);
+}
+
+// Function to read the records of a pax extended header, e.g., `30 path=some/long/file/name.ts\n`
+function parsePaxHeader(data: Buffer): { [key: string]: string } {
+  const records: { [key: string]: string } = {};
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    const length = parseInt(data.toString('utf8', offset, space), 10);
+    if (space === -1 || !(length > 0)) {
+      break;
+    }
+    const record = data.toString('utf8', space + 1, offset + length - 1);
+    const separator = record.indexOf('=');
+    if (separator !== -1) {
+      records[record.slice(0, separator)] = record.slice(separator + 1);
+    }
+    offset += length;
+  }
+  return records;
+}
+
+// Function to read the regular files of a tar archive
+function readTarEntries(buffer: Buffer): SourceArchiveEntry[] {
+  const entries: SourceArchiveEntry[] = [];
+  // Long names and pax records apply to the entry that follows them
+  let longName: string | null = null;
+  let paxRecords: { [key: string]: string } = {};
+
+  for (let offset = 0; offset + 512 <= buffer.length;) {
+    const header = buffer.subarray(offset, offset + 512);
+    if (header.every(byte => byte === 0)) {
+      break;
+    }
+    const headerName = readTarString(header, 0, 100);
+    if (!isValidTarHeader(header)) {
+      if (offset === 0) {
+        throw new Error('Not a tar archive');
+      }
+      // The sizes of the later entries can't be trusted, so the rest of the archive is unreadable
+      entries.push({
+        name: normalizeEntryName(headerName) ?? `entry at byte ${offset}`,
+        data: Buffer.alloc(0),
+        modified: new Date(0),
+        error: 'corrupt header, the rest of the archive was not read',
+      });
+      break;
+    }
+
+    const size = readTarNumber(header, 124, 12);
+    const type = String.fromCharCode(header[156] || 0x30);
+    const prefix = readTarString(header, 345, 155);
+    const rawName = longName ?? paxRecords.path ?? (prefix ? `${prefix}/${headerName}` : headerName);
+    const mtime = paxRecords.mtime ? parseFloat(paxRecords.mtime) : readTarNumber(header, 136, 12);
+    const dataStart = offset + 512;
+    const data = buffer.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / 512) * 512;
+
+    if (type === 'L' || type === 'x') {
+      if (type === 'L') {
+        longName = readTarString(data, 0, data.length);
+      } else {
+        paxRecords = parsePaxHeader(data);
+      }
+      continue;
+    }
+    longName = null;
+    paxRecords = {};
+
+    // Folders, links and devices are left out; only regular files are archived
+    const name = normalizeEntryName(rawName);
+    if ((type !== '0' && type !== '7') || name === null) {
+      continue;
+    }
+    const entry: SourceArchiveEntry = { name, data: Buffer.from(data), modified: new Date(mtime * 1000) };
+    if (data.length < size) {
+      entries.push({ ...entry, data: Buffer.alloc(0), error: 'corrupt entry: truncated data' });
+      break;
+    }
+    entries.push(entry);
+  }
+  return entries;
+}
+
+// Function to decompress a gzip file, keeping what can be read of a truncated or corrupt one
+function gunzip(buffer: Buffer): Buffer {
+  try {
+    return zlib.gunzipSync(buffer);
+  } catch (error: any) {
+    // The tar reader reports the entry that was cut off
+    const data = zlib.gunzipSync(buffer, { finishFlush: zlib.constants.Z_SYNC_FLUSH });
+    if (data.length === 0) {
+      throw new Error(`Failed to decompress: ${error?.message ?? error}`);
+    }
+    return data;
+  }
+}
+
+// Function to read the files of a .zip, .tar or .tar.gz archive into memory. Entries that can't be read are kept
+// with an error, so they can be reported without failing the run.
+export async function readSourceArchive(archivePath: string): Promise<SourceArchive> {
+  const buffer = await readFile(archivePath);
+  const name = path.basename(archivePath).toLowerCase();
+
+  let entries: SourceArchiveEntry[];
+  try {
+    entries = name.endsWith('.zip')
+      ? readZipEntries(buffer)
+      : readTarEntries(name.endsWith('.tar') ? buffer : gunzip(buffer));
+  } catch (error: any) {
+    throw new Error(`Failed to read source archive ${archivePath}: ${error?.message ?? error}`);
+  }
+
+  // Later entries replace earlier ones with the same path, as when the archive is unpacked
+  const entryMap = new Map<string, SourceArchiveEntry>();
+  for (const entry of entries) {
+    entryMap.set(path.join(archivePath, ...entry.name.split('/')), entry);
+  }
+  return { path: archivePath, entries: entryMap };
+}
+
+// Function to get the text of a source archive entry, or null if there is no such readable entry
+export function getSourceArchiveText(sourceArchive: SourceArchive, entryPath: string): string | null {
+  const entry = sourceArchive.entries.get(entryPath);
+  return entry && !entry.error ? entry.data.toString('utf8') : null;
+}
@@ -0,0 +1,262 @@
+import { existsSync, watch } from 'fs';
+import { rm } from 'fs/promises';
+import path from 'path';
+import { ArchiveOptions, resolveArchiveOptions, stdoutOutput } from './options.js';
+import {
+  ArchiveFile,
+  RootContext,
+  SkippedFile,
+  addRootLabel,
+  applyTotalSizeLimit,
+  assertNoSecrets,
+  createDirectoryRulesLookup,
+  getSecretFindings,
+  getCandidateFiles,
+  getRootContexts,
+  isSkippedFile,
+  readArchiveFile,
+} from './files.js';
+import { isIgnored } from './ignore.js';
+import { hasGitSelection } from './git.js';
+import { ArchiveResult, renderArchive, writeArchive } from './archive.js';
+import { UnresolvedImport } from './imports.js';
+import { isSourceArchive } from './unpack.js';
+import { mapConcurrently } from './concurrency.js';
+
+// Options that control how the archive is rebuilt while watching
+export interface WatchOptions {
+  // Milliseconds to wait after the last change before rebuilding (defaults to 300)
+  debounceMs?: number;
+  // Called after every successful build, including the first one
+  onBuild?: (build: WatchBuild) => void;
+  // Called when a rebuild fails; the watcher keeps running
+  onError?: (error: unknown) => void;
+}
+
+// Result of one build of a watched archive
+export interface WatchBuild {
+  result: ArchiveResult;
+  // Paths the chunks were written to
+  outputFilePaths: string[];
+  // Files re-read because they changed (empty for the first build)
+  changedFiles: string[];
+}
+
+// A running watcher
+export interface ArchiveWatcher {
+  // Function to stop watching
+  close(): void;
+}
+
+// Function to check if a path is the output file or one of its chunk files (e.g., name.01.md)
+function isOutputPath(file: string, output: string): boolean {
+  if (file === output) {
+    return true;
+  }
+  const ext = path.extname(output);
+  const baseName = path.basename(output, ext);
+  const fileName = path.basename(file);
+  return (
+    path.dirname(file) === path.dirname(output) &&
+    fileName.startsWith(baseName + '.') &&
+    fileName.endsWith(ext) &&
+    /^\d{2,}$/.test(fileName.slice(baseName.length + 1, fileName.length - ext.length))
+  );
+}
+
+// Function to build the archive once, then rebuild it whenever one of the source folders changes
+export async function watchArchive(options: ArchiveOptions = {}, watchOptions: WatchOptions = {}): Promise<ArchiveWatcher> {
+  const resolvedOptions = resolveArchiveOptions(options);
+  const { source, output } = resolvedOptions;
+  const debounceMs = watchOptions.debounceMs ?? 300;
+
+  if (output === stdoutOutput) {
+    throw new Error('Watch mode cannot write the archive to stdout');
+  }
+  if (resolvedOptions.filesFrom === '-') {
+    throw new Error('Watch mode cannot read the file list from stdin');
+  }
+  if (resolvedOptions.roots.some(root => isSourceArchive(root.path))) {
+    throw new Error('Watch mode cannot watch a source archive');
+  }
+
+  // Files read by earlier builds (null for files that aren't regular files), so only changed files are read again
+  const cache = new Map<string, ArchiveFile | SkippedFile | null>();
+  const changedPaths = new Set<string>();
+  let contexts: RootContext[] = [];
+  // Listed files with the source folder each belongs to, in archive order
+  let filePaths: [string, RootContext][] = [];
+  let unresolvedImports: UnresolvedImport[] = [];
+  let writtenPaths: string[] = [];
+  let needsListing = true;
+
+  // Function to rebuild the archive, re-reading only the files that changed since the last build
+  const build = async (overwrite: boolean): Promise<WatchBuild> => {
+    const changedFiles = [...changedPaths].filter(file => cache.has(file));
+    for (const file of changedPaths) {
+      cache.delete(file);
+    }
+    changedPaths.clear();
+
+    // The file list only has to be refreshed when files are added, removed or renamed, or the ignore files change,
+    // unless it depends on git, on the imports of the entry files or on the sizes and times the files are ordered by
+    const isOrderedByStats = resolvedOptions.order === 'size' || resolvedOptions.order === 'mtime';
+    if (needsListing || hasGitSelection(resolvedOptions) || resolvedOptions.entry.length > 0 || isOrderedByStats) {
+      needsListing = false;
+      contexts = await getRootContexts(resolvedOptions);
+      unresolvedImports = [];
+      filePaths = [];
+      for (const context of contexts) {
+        const rootImports: UnresolvedImport[] = [];
+        const rootFiles = await getCandidateFiles(context.rules, context.options, rootImports, context.listedFiles);
+        unresolvedImports.push(...rootImports.map(entry => addRootLabel(entry, context.root)));
+        filePaths.push(...rootFiles.filter(file => !isOutputPath(file, output)).map(file => [file, context] as [string, RootContext]));
+      }
+
+      const listed = new Set(filePaths.map(([file]) => file));
+      for (const file of cache.keys()) {
+        if (!listed.has(file)) {
+          cache.delete(file);
+        }
+      }
+    }
+
+    const files: ArchiveFile[] = [];
+    const skipped: SkippedFile[] = [];
+    // Only new and changed files are read, a few at a time
+    const unreadPaths = filePaths.filter(([file]) => !cache.has(file));
+    const readFiles = await mapConcurrently(
+      unreadPaths,
+      resolvedOptions.concurrency,
+      async ([file, { root, options: rootOptions }]) => {
+        const archiveFile = existsSync(file) ? await readArchiveFile(file, rootOptions) : null;
+        return archiveFile && addRootLabel(archiveFile, root);
+      }
+    );
+    unreadPaths.forEach(([file], i) => cache.set(file, readFiles[i]));
+
+    for (const [file] of filePaths) {
+      const archiveFile = cache.get(file);
+      if (archiveFile && isSkippedFile(archiveFile)) {
+        skipped.push(archiveFile);
+      } else if (archiveFile) {
+        files.push(archiveFile);
+      }
+    }
+
+    const secrets = getSecretFindings(files, skipped);
+    assertNoSecrets(secrets, resolvedOptions);
+
+    const includedFiles = applyTotalSizeLimit(files, resolvedOptions, skipped);
+    const result = { ...renderArchive(includedFiles, options, unresolvedImports), skipped, secrets };
+    const outputFilePaths = await writeArchive(result, { ...options, overwrite });
+
+    // Remove the chunk files of the previous build that are no longer part of the archive
+    for (const stalePath of writtenPaths.filter(writtenPath => !outputFilePaths.includes(writtenPath))) {
+      await rm(stalePath, { force: true });
+    }
+    writtenPaths = outputFilePaths;
+
+    return { result, outputFilePaths, changedFiles: changedFiles.map(file => path.relative(source, file)) };
+  };
+
+  // The first build fails like a regular run, e.g., when the output file exists
+  watchOptions.onBuild?.(await build(resolvedOptions.overwrite));
+
+  let timer: NodeJS.Timeout | undefined;
+  let building = false;
+  let pending = false;
+
+  // Function to run a rebuild, queueing another one if changes arrive while it runs
+  const runBuild = async () => {
+    if (building) {
+      pending = true;
+      return;
+    }
+    building = true;
+    try {
+      // Later builds replace the files written by the earlier ones
+      watchOptions.onBuild?.(await build(true));
+    } catch (error) {
+      watchOptions.onError?.(error);
+    } finally {
+      building = false;
+      if (pending) {
+        pending = false;
+        scheduleBuild();
+      }
+    }
+  };
+
+  // Function to debounce rebuilds, so a burst of changes triggers a single one
+  const scheduleBuild = () => {
+    clearTimeout(timer);
+    timer = setTimeout(runBuild, debounceMs);
+  };
+
+  // Function to record a change in a source folder reported by the watcher and schedule a rebuild if it matters
+  const handleChange = async (rootPath: string, eventType: string, fullPath: string) => {
+    const relativePath = path.relative(rootPath, fullPath);
+    const segments = relativePath.split(path.sep);
+
+    if (isOutputPath(fullPath, output) || segments.includes('.git')) {
+      // Staging or committing changes the files selected by git, and their diffs
+      if (hasGitSelection(resolvedOptions) && segments[0] === '.git' && ['index', 'HEAD'].includes(segments[1])) {
+        if (resolvedOptions.withDiff) {
+          cache.clear();
+        }
+        scheduleBuild();
+      }
+      return;
+    }
+
+    if (cache.has(fullPath)) {
+      changedPaths.add(fullPath);
+      if (eventType === 'rename') {
+        needsListing = true;
+      }
+      scheduleBuild();
+      return;
+    }
+
+    const baseName = path.basename(fullPath);
+    if (baseName === '.gitignore' || baseName === '.txtzipignore') {
+      needsListing = true;
+      scheduleBuild();
+      return;
+    }
+
+    // Skip paths that are ignored, so changes in folders like node_modules don't trigger rebuilds; folders that
+    // aren't archived, such as those without entry files, are skipped as well
+    const context = contexts.find(candidate => candidate.root.path === rootPath);
+    if (!context) {
+      return;
+    }
+    const directoryRules = await createDirectoryRulesLookup(context.rules, rootPath)(path.dirname(fullPath));
+    if (!directoryRules || isIgnored(directoryRules, fullPath, true) || isIgnored(directoryRules, fullPath, false)) {
+      return;
+    }
+
+    // A new file or folder, or a file that isn't archived yet
+    needsListing = true;
+    scheduleBuild();
+  };
+
+  const watchers = resolvedOptions.roots.map(({ path: rootPath }) => watch(rootPath, { recursive: true }, (eventType, filename) => {
+    if (!filename) {
+      needsListing = true;
+      scheduleBuild();
+      return;
+    }
+    handleChange(rootPath, eventType, path.join(rootPath, filename.toString())).catch(error => watchOptions.onError?.(error));
+  }));
+
+  return {
+    close() {
+      clearTimeout(timer);
+      for (const watcher of watchers) {
+        watcher.close();
+      }
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createArchive } from '../src/archive.js';
+import { createFixture, removeFixtures } from './fixtures.js';
+
+describe('token budget', () => {
+  after(removeFixtures);
+
+  const files = {
+    'a-large.txt': 'word word word\n'.repeat(400),
+    'b.txt': 'small file\n',
+    'c.txt': 'another small file\n',
+  };
+
+  it('fails by default when the archive exceeds the budget', async () => {
+    const source = await createFixture(files);
+    await assert.rejects(createArchive({ source, maxTokens: 600 }), /Archive exceeds the token budget/);
+  });
+
+  it('drops only the files that do not fit, keeping the smaller files after them', async () => {
+    const source = await createFixture(files);
+    const result = await createArchive({ source, maxTokens: 600, overBudget: 'drop' });
+    assert.deepEqual(result.dropped, ['a-large.txt']);
+    assert.deepEqual(result.manifest.map(entry => entry.path), ['b.txt', 'c.txt']);
+    assert.ok(result.chunkTokens.reduce((sum, tokens) => sum + tokens, 0) <= 600);
+  });
+
+  it('fails when no file fits the budget', async () => {
+    const source = await createFixture(files);
+    await assert.rejects(createArchive({ source, maxTokens: 5, overBudget: 'drop' }), /No file fits the token budget/);
+  });
+});
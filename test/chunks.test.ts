@@ -0,0 +1,65 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createArchive } from '../src/archive.js';
+import { joinArchiveChunks, parseArchive } from '../src/extract.js';
+import { createFixture, removeFixtures } from './fixtures.js';
+
+// Function to count the code fence lines of a chunk
+function countFences(chunk: string): number {
+  return chunk.split('\n').filter(line => /^\s*```/.test(line)).length;
+}
+
+describe('chunk splitting', () => {
+  after(removeFixtures);
+
+  it('splits long files at line boundaries, closing and reopening the code block in every chunk', async () => {
+    const lines = Array.from({ length: 60 }, (_, i) => `value_${i} = ${i}`);
+    const source = await createFixture({ 'long.py': lines.join('\n') + '\n' });
+    const { chunks } = await createArchive({ source, chunkSize: 500 });
+
+    assert.ok(chunks.length > 2);
+    const chunkLines = chunks.map(chunk => chunk.split('\n').filter(line => line.startsWith('value_')));
+    for (const [i, chunk] of chunks.entries()) {
+      assert.equal(countFences(chunk), 2, `chunk ${i + 1}`);
+    }
+    assert.deepEqual(chunkLines.flat(), lines);
+    // Continuations say which lines of the file they hold
+    const firstLine = chunkLines[0].length + 1;
+    const lastLine = firstLine + chunkLines[1].length - 1;
+    assert.match(chunks[1], new RegExp(`## Continuation of File: long\\.py \\(lines ${firstLine}-${lastLine}\\)`));
+  });
+
+  it('splits Markdown files between their code blocks', async () => {
+    const sections = Array.from({ length: 10 }, (_, i) => `para ${i}\n\n\`\`\`ts\nconst x${i} = ${i};\n\`\`\`\n`);
+    const source = await createFixture({ 'doc.md': '# Title\n\n' + sections.join('') });
+    const { chunks } = await createArchive({ source, chunkSize: 500 });
+
+    assert.ok(chunks.length > 1);
+    for (const [i, chunk] of chunks.entries()) {
+      assert.equal(countFences(chunk) % 2, 0, `chunk ${i + 1}`);
+    }
+    assert.equal(chunks.join('').match(/const x\d+ = \d+;/g)?.length, 10);
+  });
+
+  it('closes and reopens a Markdown code block that is too long for one chunk', async () => {
+    const block = Array.from({ length: 60 }, (_, i) => `const x${i} = ${i};\n`).join('');
+    const content = `# Title\n\n~~~ts\n${block}~~~\n\nEnd\n`;
+    const source = await createFixture({ 'doc.md': content });
+    const { chunks } = await createArchive({ source, chunkSize: 500 });
+
+    assert.ok(chunks.length > 2);
+    for (const [i, chunk] of chunks.entries()) {
+      assert.equal(chunk.split('\n').filter(line => line.startsWith('~~~')).length % 2, 0, `chunk ${i + 1}`);
+    }
+    assert.match(chunks[2], /^~~~ts continued$/m);
+    assert.deepEqual(parseArchive(joinArchiveChunks(chunks)), [{ path: 'doc.md', content }]);
+  });
+
+  it('keeps the code blocks of a Markdown file that is split between two of them when extracting', () => {
+    const chunks = [
+      '\n## File: doc.md\n\n```\na\n```\n\n*File continues in next part*\n',
+      '\n## Continuation of File: doc.md (lines 4-6)\n\n```ts\nb\n```\n\n',
+    ];
+    assert.deepEqual(parseArchive(joinArchiveChunks(chunks)), [{ path: 'doc.md', content: '```\na\n```\n```ts\nb\n```\n' }]);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getCommentSyntax, stripComments } from '../src/comments.js';
+
+// Function to strip the comments of a file with the syntax of its extension
+function strip(ext: string, content: string): string {
+  const syntax = getCommentSyntax(ext);
+  assert.ok(syntax, `no comment syntax for ${ext}`);
+  return stripComments(content, syntax);
+}
+
+describe('stripComments', () => {
+  it('removes line and block comments, dropping the lines that only held comments', () => {
+    const content = 'const a = 1; // one\n/* block\n comment */\nconst b = 2;\n';
+    assert.equal(strip('.ts', content), 'const a = 1;\nconst b = 2;\n');
+  });
+
+  it('keeps comment markers inside strings', () => {
+    const content = 'const b = "// not a comment";\nconst c = \'/* nor this */\';\n';
+    assert.equal(strip('.ts', content), content);
+  });
+
+  it('handles template literal expressions and regular expressions in JavaScript', () => {
+    const content = 'const url = `http://x/${y /* c */}`; // tail\nconst r = /\\/\\/ no/g;\n';
+    assert.equal(strip('.ts', content), 'const url = `http://x/${y }`;\nconst r = /\\/\\/ no/g;\n');
+  });
+
+  it('keeps directive comments', () => {
+    const content = '/// <reference types="node" />\n// @ts-ignore\nx();\n';
+    assert.equal(strip('.ts', content), content);
+  });
+
+  it('keeps hash characters inside Python triple-quoted strings', () => {
+    const content = 'x = 1  # comment\ns = """# not\ncomment"""\n# full line\ny = 2\n';
+    assert.equal(strip('.py', content), 'x = 1\ns = """# not\ncomment"""\ny = 2\n');
+  });
+
+  it('only starts shell comments after whitespace', () => {
+    assert.equal(strip('.sh', 'echo a#b # real\nURL="x#y"\n'), 'echo a#b\nURL="x#y"\n');
+  });
+
+  it('handles nested block comments in Rust', () => {
+    assert.equal(strip('.rs', '/* outer /* inner */ still */ fn main() {}\n'), ' fn main() {}\n');
+  });
+
+  it('removes HTML comments', () => {
+    assert.equal(strip('.html', '<p>a</p><!-- c -->\n'), '<p>a</p>\n');
+  });
+});
+
+describe('hash comments next to strings', () => {
+  it('keeps comment markers inside strings in Python, Ruby and shell scripts', () => {
+    assert.equal(strip('.py', "a = 'x # y'  # c\nb = \"#\"\n"), "a = 'x # y'\nb = \"#\"\n");
+    assert.equal(strip('.rb', 'puts "#{name} # x" # c\n'), 'puts "#{name} # x"\n');
+    assert.equal(strip('.sh', "echo 'a # b' \"c # d\" # e\n"), "echo 'a # b' \"c # d\"\n");
+  });
+
+  it('keeps comment markers inside quoted YAML values, including ones that span lines', () => {
+    const content = 'a: "x # y" # c\nb: \'it\'\'s # z\' # c\nc: "multi\n  # line"\nd: [x, "#y"] # c\n';
+    assert.equal(strip('.yml', content), 'a: "x # y"\nb: \'it\'\'s # z\'\nc: "multi\n  # line"\nd: [x, "#y"]\n');
+  });
+
+  it('does not start YAML strings at apostrophes inside unquoted values', () => {
+    assert.equal(strip('.yaml', "title: It's here # c\nnext: 1\n"), "title: It's here\nnext: 1\n");
+  });
+
+  it('only starts YAML comments after whitespace, also next to quotes and flow characters', () => {
+    const content = 'a: "x"#y\nb: [x,#y]\nc: x#y\n';
+    assert.equal(strip('.yaml', content), content);
+  });
+
+  it('keeps comment markers inside quoted TOML strings', () => {
+    const content = 'a = "x # y" # c\nb = \'\'\'\n# z\n\'\'\'\n';
+    assert.equal(strip('.toml', content), 'a = "x # y"\nb = \'\'\'\n# z\n\'\'\'\n');
+  });
+
+  it('keeps comment markers inside quoted ini values', () => {
+    const content = '; header\n[s]\na = "x # y" ; c\nb = \'p ; q\' # c\nc = it\'s ; c\n';
+    assert.equal(strip('.ini', content), '[s]\na = "x # y"\nb = \'p ; q\'\nc = it\'s\n');
+  });
+
+  it('only strips Gherkin comments that start a line, keeping doc strings', () => {
+    const content = '# c\nFeature: a\n  Given the text "a # b"\n  """\n  # kept\n  """\n  # c\n';
+    assert.equal(strip('.feature', content), 'Feature: a\n  Given the text "a # b"\n  """\n  # kept\n  """\n');
+  });
+});
+
+describe('getCommentSyntax', () => {
+  it('returns null for languages without known comment syntax', () => {
+    assert.equal(getCommentSyntax('.unknownext'), null);
+  });
+});
@@ -0,0 +1,108 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { findConfigFile, loadConfig, validateConfig } from '../src/config.js';
+import { createFixture, removeFixtures } from './fixtures.js';
+
+// Function to create a folder with a txtzip.json holding the given configuration
+function createConfigFixture(config: unknown): Promise<string> {
+  return createFixture({ 'txtzip.json': JSON.stringify(config) });
+}
+
+describe('loadConfig', () => {
+  after(removeFixtures);
+
+  it('applies a profile on top of the profiles it extends, in order', async () => {
+    const folder = await createConfigFixture({
+      'chunk-tokens': 1000,
+      'line-numbers': true,
+      profiles: {
+        base: { 'chunk-tokens': 2000, 'prefix-tree': true },
+        strict: { secrets: 'fail', 'prefix-tree': false },
+        review: { extends: ['base', 'strict'], 'with-diff': true },
+      },
+    });
+    const config = loadConfig(folder, 'review');
+
+    assert.equal(config.file, path.join(folder, 'txtzip.json'));
+    assert.deepEqual(config.values, {
+      'chunk-tokens': 2000,
+      'line-numbers': true,
+      'prefix-tree': false,
+      secrets: 'fail',
+      'with-diff': true,
+    });
+    assert.equal(config.sources['line-numbers'], 'txtzip.json');
+    assert.equal(config.sources['chunk-tokens'], 'txtzip.json, profile base');
+    assert.equal(config.sources['prefix-tree'], 'txtzip.json, profile strict');
+  });
+
+  it('reports profiles that extend each other in a cycle', async () => {
+    const folder = await createConfigFixture({
+      profiles: { a: { extends: 'b' }, b: { extends: 'c' }, c: { extends: 'a' } },
+    });
+    assert.throws(() => loadConfig(folder, 'a'), {
+      name: 'ConfigError',
+      message: /profiles\.a\.extends: circular reference \(a -> b -> c -> a\)/,
+    });
+  });
+
+  it('lists the available profiles when an unknown one is requested', async () => {
+    const folder = await createConfigFixture({ profiles: { a: {}, b: {} } });
+    assert.throws(() => loadConfig(folder, 'c'), /Unknown profile "c"; available profiles: a, b/);
+  });
+
+  it('resolves paths against the folder of the configuration file', async () => {
+    const folder = await createConfigFixture({ source: ['web=apps/web', 'lib'], output: 'out/archive.md' });
+    const { values } = loadConfig(folder);
+    assert.deepEqual(values.source, [`web=${path.join(folder, 'apps/web')}`, path.join(folder, 'lib')]);
+    assert.equal(values.output, path.join(folder, 'out/archive.md'));
+  });
+});
+
+describe('findConfigFile', () => {
+  after(removeFixtures);
+
+  it('searches the parent folders up to the root of the git repository', async () => {
+    const folder = await createFixture({
+      'repo/.git/HEAD': 'ref: refs/heads/main\n',
+      'repo/txtzip.json': '{}',
+      'repo/packages/app/index.ts': '',
+      'plain/sub/index.ts': '',
+      'plain/txtzip.json': '{}',
+    });
+    assert.equal(findConfigFile(path.join(folder, 'repo/packages/app')), path.join(folder, 'repo/txtzip.json'));
+    // Outside a git repository, only the start folder is searched
+    assert.equal(findConfigFile(path.join(folder, 'plain/sub')), null);
+  });
+});
+
+describe('validateConfig', () => {
+  it('accepts a valid configuration', () => {
+    assert.deepEqual(validateConfig({ 'chunk-size': '1M', depth: 2, format: 'xml', profiles: { a: { extends: [] } } }), []);
+  });
+
+  it('accepts the settings of configurations written for earlier versions', () => {
+    assert.deepEqual(validateConfig({ chunkSize: '1M', 'check-update': true }), []);
+  });
+
+  it('reports unknown settings, wrong types and unknown parent profiles', () => {
+    assert.deepEqual(validateConfig({
+      chunkTokens: 1000,
+      depth: -1,
+      'line-numbers': 'yes',
+      format: 'yaml',
+      profiles: { a: { extends: 'missing' } },
+    }), [
+      'chunkTokens: unknown setting (did you mean "chunk-tokens"?)',
+      'depth: must be a non-negative number, got -1',
+      'line-numbers: must be a boolean, not a string',
+      'format: must be one of "markdown", "xml", "json", "text"',
+      'profiles.a.extends: unknown profile "missing"',
+    ]);
+  });
+
+  it('rejects configurations that are not objects', () => {
+    assert.deepEqual(validateConfig([]), ['the configuration must be an object, not an array']);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConverterRule, convertContent, defaultConverters, getFileConverter } from '../src/converters.js';
+
+describe('getFileConverter', () => {
+  it('applies the default converters, with a minimum size for JSON files', () => {
+    assert.equal(getFileConverter('data/big.json', 200 * 1024, defaultConverters)?.converter, 'json-structure');
+    assert.equal(getFileConverter('small.json', 10, defaultConverters), null);
+    assert.equal(getFileConverter('notebooks/a.ipynb', 10, defaultConverters)?.converter, 'notebook');
+    assert.equal(getFileConverter('src/a.ts', 10, defaultConverters), null);
+  });
+
+  it('lets later rules override earlier ones', () => {
+    const rules: ConverterRule[] = [...defaultConverters, { files: 'fixtures/**', converter: 'none' }];
+    assert.equal(getFileConverter('fixtures/a.csv', 10, rules), null);
+    assert.equal(getFileConverter('data/a.csv', 10, rules)?.converter, 'table');
+  });
+});
+
+describe('table converter', () => {
+  const rule: ConverterRule = { files: '*.csv', converter: 'table', rows: 2 };
+
+  it('keeps the header and the first rows, keeping line breaks inside quoted fields', () => {
+    const csv = 'id,text\n1,"multi\nline"\n' + Array.from({ length: 12 }, (_, i) => `${i + 2},row\n`).join('');
+    assert.deepEqual(convertContent('data.csv', csv, rule), {
+      content: 'id,text\n1,"multi\nline"\n2,row\n... [converted by txtzip: showing 2 of 13 rows] ...\n',
+      language: 'csv',
+    });
+  });
+
+  it('keeps JSON Lines files without a header', () => {
+    assert.deepEqual(convertContent('data.jsonl', '{"a":1}\n{"a":2}\n{"a":3}', rule), {
+      content: '{"a":1}\n{"a":2}\n... [converted by txtzip: showing 2 of 3 rows] ...\n',
+      language: 'json',
+    });
+  });
+
+  it('leaves files with no more rows than are kept as they are', () => {
+    assert.equal(convertContent('data.csv', 'id\n1\n2\n', rule), null);
+  });
+});
+
+describe('json-structure converter', () => {
+  const rule: ConverterRule = { files: '*.json', converter: 'json-structure' };
+
+  it('describes the keys and value types, merging the objects in arrays', () => {
+    const json = JSON.stringify({ name: 'x', items: [{ id: 1, tags: ['a'] }, { id: 2, extra: null }], mixed: [1, 'a'] });
+    assert.equal(convertContent('big.json', json, rule)?.content, [
+      '// Structure of 82 bytes of JSON, converted by txtzip',
+      '{',
+      '  "name": string',
+      '  "items": Array(2) of {',
+      '    "id": number',
+      '    "tags"?: Array(1) of string',
+      '    "extra"?: null',
+      '  }',
+      '  "mixed": Array(2) of (number | string)',
+      '}',
+      '',
+    ].join('\n'));
+  });
+
+  it('leaves invalid JSON as it is', () => {
+    assert.equal(convertContent('big.json', '{ "a": ', rule), null);
+  });
+});
+
+describe('notebook converter', () => {
+  const notebook = {
+    cells: [
+      { cell_type: 'markdown', source: ['# Title\n', 'text'] },
+      {
+        cell_type: 'code',
+        source: 'print(1)',
+        outputs: [
+          { output_type: 'stream', name: 'stdout', text: ['1\n'] },
+          { output_type: 'display_data', data: { 'image/png': 'iVBORw0KGgo=' } },
+          { output_type: 'error', ename: 'ValueError', evalue: 'bad' },
+        ],
+      },
+    ],
+    metadata: { language_info: { name: 'python', file_extension: '.py' } },
+  };
+
+  it('writes the cells in the percent format with summarized outputs', () => {
+    const rule: ConverterRule = { files: '*.ipynb', converter: 'notebook' };
+    assert.deepEqual(convertContent('a.ipynb', JSON.stringify(notebook), rule), {
+      content: [
+        '# %% [markdown]',
+        '# # Title',
+        '# text',
+        '',
+        '# %%',
+        'print(1)',
+        '# [stdout]',
+        '#   1',
+        '# [image/png output, 12 bytes]',
+        '# [error] ValueError: bad',
+        '',
+      ].join('\n'),
+      language: 'python',
+    });
+  });
+
+  it('strips the outputs when asked to', () => {
+    const rule: ConverterRule = { files: '*.ipynb', converter: 'notebook', outputs: 'strip' };
+    assert.equal(
+      convertContent('a.ipynb', JSON.stringify(notebook), rule)?.content,
+      '# %% [markdown]\n# # Title\n# text\n\n# %%\nprint(1)\n'
+    );
+  });
+
+  it('leaves files that are not notebooks as they are', () => {
+    const rule: ConverterRule = { files: '*.ipynb', converter: 'notebook' };
+    assert.equal(convertContent('a.ipynb', '{"cells": [{"source": 1}]}', rule), null);
+    assert.equal(convertContent('a.ipynb', 'not json', rule), null);
+  });
+});
+
+describe('svg converter', () => {
+  it('replaces long path data with its length', () => {
+    const svg = `<svg><path d="${'M0 0 L1 1 '.repeat(10)}"/></svg>`;
+    assert.deepEqual(convertContent('a.svg', svg, { files: '*.svg', converter: 'svg' }), {
+      content: '<svg><path d="[100 characters of path data]"/></svg>',
+      language: 'xml',
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createArchive } from '../src/archive.js';
+import { decodeText } from '../src/encoding.js';
+import { createFixture, removeFixtures } from './fixtures.js';
+
+describe('decodeText', () => {
+  it('decodes plain UTF-8 text', () => {
+    assert.deepEqual(decodeText(Buffer.from('héllo\n'), '.txt'), { text: 'héllo\n', encoding: 'utf8' });
+  });
+
+  it('strips byte order marks from UTF-8 and UTF-16 text', () => {
+    const utf8 = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('a\n')]);
+    const utf16le = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('hé\n', 'utf16le')]);
+    const utf16be = Buffer.concat([Buffer.from([0xfe, 0xff]), Buffer.from('hé\n', 'utf16le').swap16()]);
+    assert.deepEqual(decodeText(utf8), { text: 'a\n', encoding: 'utf8-bom' });
+    assert.deepEqual(decodeText(utf16le), { text: 'hé\n', encoding: 'utf16le' });
+    assert.deepEqual(decodeText(utf16be), { text: 'hé\n', encoding: 'utf16be' });
+  });
+
+  it('ignores a trailing odd byte in UTF-16 text', () => {
+    const buffer = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('ab', 'utf16le'), Buffer.from([0x63])]);
+    assert.deepEqual(decodeText(buffer), { text: 'ab', encoding: 'utf16le' });
+  });
+
+  it('reports known binary extensions whatever the content', () => {
+    assert.deepEqual(decodeText(Buffer.from('text'), '.PNG'), { binaryReason: 'known binary extension (.png)' });
+  });
+
+  it('reports binary signatures, NUL bytes and control characters', () => {
+    assert.deepEqual(decodeText(Buffer.from('%PDF-1.7\n'), '.txt'), { binaryReason: 'PDF document signature' });
+    assert.deepEqual(decodeText(Buffer.from('a\0b'), '.txt'), { binaryReason: 'contains NUL bytes' });
+    assert.deepEqual(decodeText(Buffer.from([1, 2, 3, 4, 0x61])), { binaryReason: 'too many control characters' });
+  });
+
+  it('keeps tabs, form feeds and escape sequences as text', () => {
+    const text = '\ta\f\x1b[31mred\x1b[0m\r\n';
+    assert.deepEqual(decodeText(Buffer.from(text)), { text, encoding: 'utf8' });
+  });
+
+  it('only falls back to Latin-1 for invalid UTF-8 when asked to', () => {
+    const buffer = Buffer.from('caf\xe9\n', 'latin1');
+    assert.deepEqual(decodeText(buffer, '.txt'), { binaryReason: 'not valid UTF-8' });
+    assert.deepEqual(decodeText(buffer, '.txt', true), { text: 'café\n', encoding: 'latin1' });
+  });
+});
+
+describe('binary files in archives', () => {
+  after(removeFixtures);
+
+  it('skips binary files with their reason and archives decoded text', async () => {
+    const source = await createFixture({
+      'a.txt': Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('wide\n', 'utf16le')]),
+      'b.bin': 'not really binary\n',
+      'c.txt': Buffer.from('a\0b'),
+    });
+    const { chunks, skipped } = await createArchive({ source });
+    assert.match(chunks[0], /## File: a\.txt\n\n```\nwide\n/);
+    assert.deepEqual(skipped, [
+      { relativePath: 'b.bin', kind: 'binary', reason: 'known binary extension (.bin)' },
+      { relativePath: 'c.txt', kind: 'binary', reason: 'contains NUL bytes' },
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { createArchive, getOutputFilePaths } from '../src/archive.js';
+import { extractArchive, joinArchiveChunks, parseArchive } from '../src/extract.js';
+import { ArchiveOptions } from '../src/options.js';
+import { createFixture, removeFixtures } from './fixtures.js';
+
+const files: { [relativePath: string]: string } = {
+  'README.md': '# Title\n\nSome text.\n\n```ts\nconst x = 1;\n```\n',
+  'notes/plain.txt': 'plain\n',
+  'src/fence.ts': 'const s = `\n```\n`;\nexport { s };\n',
+  'src/long.py': Array.from({ length: 80 }, (_, i) => `value_${i} = ${i}\n`).join(''),
+};
+
+// Function to archive the files with the given options and parse the files back out of the archive
+async function roundTrip(options: ArchiveOptions): Promise<{ chunks: string[]; parsed: { [path: string]: string } }> {
+  const source = await createFixture(files);
+  const { chunks } = await createArchive({ source, ...options });
+  const parsed = Object.fromEntries(parseArchive(joinArchiveChunks(chunks)).map(file => [file.path, file.content]));
+  return { chunks, parsed };
+}
+
+describe('parseArchive', () => {
+  after(removeFixtures);
+
+  it('parses the files of an archive back to their content', async () => {
+    const { parsed } = await roundTrip({});
+    assert.deepEqual(parsed, files);
+  });
+
+  it('removes line numbers and instructions', async () => {
+    const { chunks, parsed } = await roundTrip({
+      lineNumbers: true,
+      headerTemplate: 'Read {{fileCount}} files',
+      footerTemplate: 'The end',
+    });
+    assert.match(chunks[0], /Read 4 files/);
+    assert.deepEqual(parsed, files);
+  });
+
+  it('joins files split across chunks', async () => {
+    const { chunks, parsed } = await roundTrip({ chunkSize: 600 });
+    assert.ok(chunks.length > 1);
+    assert.deepEqual(parsed, files);
+  });
+
+  it('skips converted files, since they do not hold the original content', async () => {
+    const source = await createFixture({
+      'data.csv': Array.from({ length: 20 }, (_, i) => `${i},row ${i}\n`).join(''),
+      'plain.txt': 'plain\n',
+    });
+    const { chunks } = await createArchive({ source });
+    assert.match(chunks[0], /## Converted: data\.csv/);
+    assert.deepEqual(parseArchive(joinArchiveChunks(chunks)).map(file => file.path), ['plain.txt']);
+  });
+});
+
+describe('extractArchive', () => {
+  after(removeFixtures);
+
+  it('extracts every chunk of a chunked archive, given any of them', async () => {
+    const source = await createFixture(files);
+    const folder = await createFixture();
+    const { chunks } = await createArchive({ source, chunkSize: 600 });
+    const chunkPaths = getOutputFilePaths(path.join(folder, 'archive.md'), chunks.length);
+    await Promise.all(chunkPaths.map((chunkPath, i) => writeFile(chunkPath, chunks[i])));
+
+    const target = path.join(folder, 'out');
+    const result = await extractArchive({ archive: chunkPaths[1], target });
+    assert.deepEqual(result.chunkPaths, chunkPaths);
+    for (const [relativePath, content] of Object.entries(files)) {
+      assert.equal(await readFile(path.join(target, relativePath), 'utf8'), content);
+    }
+  });
+
+  it('refuses to write outside the target folder', async () => {
+    const folder = await createFixture({ 'archive.md': '\n## File: ../evil.txt\n\n```text\nevil\n```\n' });
+    await assert.rejects(
+      extractArchive({ archive: path.join(folder, 'archive.md'), target: path.join(folder, 'out') }),
+      /Refusing to extract outside the target folder: \.\.\/evil\.txt/
+    );
+  });
+
+  it('does not overwrite existing files unless asked to', async () => {
+    const folder = await createFixture({
+      'archive.md': '\n## File: a.txt\n\n```text\nnew\n\n```\n',
+      'out/a.txt': 'old\n',
+    });
+    const options = { archive: path.join(folder, 'archive.md'), target: path.join(folder, 'out') };
+    await assert.rejects(extractArchive(options), { name: 'OutputExistsError' });
+    await extractArchive({ ...options, overwrite: true });
+    assert.equal(await readFile(path.join(folder, 'out/a.txt'), 'utf8'), 'new\n');
+  });
+
+  it('rejects archives in other formats', async () => {
+    const source = await createFixture({ 'a.txt': 'a\n' });
+    const { chunks } = await createArchive({ source, format: 'xml' });
+    const folder = await createFixture({ 'archive.xml': chunks[0] });
+    await assert.rejects(extractArchive({ archive: path.join(folder, 'archive.xml') }), /Not a Markdown archive/);
+  });
+});
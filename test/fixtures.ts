@@ -0,0 +1,28 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+// Files of a fixture folder by relative path
+export type FixtureFiles = { [relativePath: string]: string | Buffer };
+
+// Temporary folders created by the tests, removed by removeFixtures
+const fixtureFolders: string[] = [];
+
+// Function to create a temporary folder with the given files
+export async function createFixture(files: FixtureFiles = {}): Promise<string> {
+  const folder = await mkdtemp(path.join(os.tmpdir(), 'txtzip-test-'));
+  fixtureFolders.push(folder);
+  for (const [relativePath, content] of Object.entries(files)) {
+    const file = path.join(folder, relativePath);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, content);
+  }
+  return folder;
+}
+
+// Function to remove the temporary folders created by the tests
+export async function removeFixtures(): Promise<void> {
+  for (const folder of fixtureFolders.splice(0)) {
+    await rm(folder, { recursive: true, force: true });
+  }
+}
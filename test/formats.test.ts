@@ -0,0 +1,80 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createArchive } from '../src/archive.js';
+import { escapeXml, getFormatter } from '../src/formats.js';
+import { createFixture, removeFixtures } from './fixtures.js';
+
+const code = 'if (a < b && c > d) { s = "]]>"; }\u0001\n';
+
+describe('escapeXml', () => {
+  it('escapes markup characters and replaces characters XML does not allow', () => {
+    assert.equal(escapeXml('<a href="x">&amp;</a>\u0001\t\n'), '&lt;a href=&quot;x&quot;&gt;&amp;amp;&lt;/a&gt;�\t\n');
+  });
+});
+
+describe('output formats', () => {
+  after(removeFixtures);
+
+  it('escapes the paths, the tree and the content of files in XML', async () => {
+    const source = await createFixture({ 'a&b.ts': code });
+    const { chunks } = await createArchive({ source, format: 'xml', prefixTree: true });
+    assert.equal(chunks[0], [
+      '<documents>',
+      '<file_structure>',
+      '└── a&amp;b.ts',
+      '</file_structure>',
+      '<document index="1">',
+      '<source>a&amp;b.ts</source>',
+      '<document_content>if (a &lt; b &amp;&amp; c &gt; d) { s = &quot;]]&gt;&quot;; }�',
+      '</document_content>',
+      '</document>',
+      '</documents>',
+      '',
+    ].join('\n'));
+  });
+
+  it('writes every JSON chunk as a JSON array, with split files in parts', async () => {
+    const long = Array.from({ length: 40 }, (_, i) => `line "${i}" \\ <${i}>`).join('\n') + '\n';
+    const source = await createFixture({ 'a&b.ts': code, 'long.txt': long });
+    const { chunks } = await createArchive({
+      source,
+      format: 'json',
+      chunkSize: 600,
+      headerTemplate: 'Read {{fileCount}} files',
+      partPreambles: false,
+    });
+
+    assert.ok(chunks.length > 1);
+    const entries = chunks.flatMap(chunk => JSON.parse(chunk));
+    assert.deepEqual(entries[0], { instructions: 'Read 2 files' });
+    assert.deepEqual(entries[1], { path: 'a&b.ts', language: 'typescript', size: 36, content: code });
+    const parts = entries.filter(entry => entry.path === 'long.txt');
+    assert.ok(parts.length > 1);
+    assert.equal(parts.map(part => part.content).join(''), long);
+    assert.deepEqual(parts.map(part => part.continues), [...parts.slice(1).map(() => true), false]);
+    assert.equal(parts[1].startLine, parts[0].endLine + 1);
+  });
+
+  it('puts the footer of a plain text file on its own line', async () => {
+    const source = await createFixture({ 'a.txt': 'no newline' });
+    const { chunks } = await createArchive({ source, format: 'text' });
+    assert.equal(chunks[0], '\n=== File: a.txt ===\nno newline\n=== End of File: a.txt ===\n');
+  });
+
+  it('marks numbered lines in the info string of Markdown code blocks', () => {
+    const part = getFormatter('markdown').renderFilePart({
+      kind: 'file',
+      path: 'a.ts',
+      index: 1,
+      language: 'typescript',
+      size: 2,
+      content: '1 | a\n',
+      startLine: 1,
+      endLine: 1,
+      isFirstPart: true,
+      isLastPart: true,
+      numbered: true,
+    }, true);
+    assert.equal(part, '\n## File: a.ts\n\n```typescript line-numbers\n1 | a\n\n```\n');
+  });
+});
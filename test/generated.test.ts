@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getGeneratedReason } from '../src/generated.js';
+
+describe('getGeneratedReason', () => {
+  it('detects lockfiles, minified file names and source map comments', () => {
+    assert.equal(getGeneratedReason('app/package-lock.json', '{}'), 'lockfile');
+    assert.equal(getGeneratedReason('vendor/lib.min.js', 'x'), 'minified file name');
+    assert.equal(getGeneratedReason('dist/a.js', 'x();\n//# sourceMappingURL=a.js.map\n'), 'source map comment');
+    assert.equal(getGeneratedReason('dist/a.js', `var a=${'1+'.repeat(3000)}1;`), 'very long lines (minified)');
+  });
+
+  it('detects comments that start with a generated file marker near the top', () => {
+    const markers = [
+      ['api.pb.go', '// Code generated by protoc-gen-go. DO NOT EDIT.\npackage api\n'],
+      ['schema.ts', '/**\n * @generated SignedSource<<abc>>\n */\n'],
+      ['requirements.txt', '#\n# This file is autogenerated by pip-compile with Python 3.12\n#\n'],
+      ['Model.cs', '//------\n// <auto-generated>\n//     This code was generated by a tool.\n'],
+      ['gen.sql', '-- Auto-generated by sqlc\n'],
+      ['docs/api.md', '<!-- This file was automatically generated by typedoc -->\n# API\n'],
+    ];
+    for (const [relativePath, content] of markers) {
+      assert.equal(getGeneratedReason(relativePath, content), 'generated file marker', relativePath);
+    }
+  });
+
+  it('keeps hand-written files that mention generated code', () => {
+    const handWritten = [
+      ['docs/clients.md', '# Using auto-generated clients\n\nThe clients are generated from the schema.\n'],
+      ['docs/build.md', '# This file is generated by the build\n'],
+      ['src/a.ts', '// Parses the autogenerated ids from the server\nexport const a = 1;\n'],
+      ['src/b.py', 'def parse():\n    # skip the @generated ids, DO NOT EDIT them\n    pass\n'],
+      ['src/c.ts', "const header = '// @generated';\n"],
+    ];
+    for (const [relativePath, content] of handWritten) {
+      assert.equal(getGeneratedReason(relativePath, content), null, relativePath);
+    }
+  });
+
+  it('only looks for markers in the first 10 lines', () => {
+    assert.equal(getGeneratedReason('a.ts', '\n'.repeat(10) + '// @generated\n'), null);
+  });
+});
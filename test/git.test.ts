@@ -0,0 +1,55 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { getGitDiff, getGitFiles, runGit } from '../src/git.js';
+import { createFixture, removeFixtures } from './fixtures.js';
+
+// Function to run git in a folder with a fixed identity, so commits work without a user configuration
+function git(folder: string, ...args: string[]): Promise<string> {
+  return runGit(['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], folder);
+}
+
+describe('git selection', () => {
+  let folder: string;
+
+  before(async () => {
+    folder = await createFixture({ 'committed.ts': 'a\n', 'changed.ts': 'a\n', 'staged.ts': 'a\n', 'deleted.ts': 'a\n' });
+    await git(folder, 'init', '-q');
+    await git(folder, 'add', '.');
+    await git(folder, 'commit', '-q', '-m', 'initial');
+    await writeFile(path.join(folder, 'changed.ts'), 'b\n');
+    await writeFile(path.join(folder, 'staged.ts'), 'b\n');
+    await git(folder, 'add', 'staged.ts');
+    await writeFile(path.join(folder, 'untracked.ts'), 'new\n');
+    await rm(path.join(folder, 'deleted.ts'));
+  });
+  after(removeFixtures);
+
+  // Function to list the selected files relative to the repository
+  const select = async (selection: Parameters<typeof getGitFiles>[1]) =>
+    (await getGitFiles(folder, selection)).map(file => path.relative(folder, file));
+
+  it('selects files changed since a ref, including untracked files but not deleted ones', async () => {
+    assert.deepEqual(await select({ changedSince: 'HEAD' }), ['changed.ts', 'staged.ts', 'untracked.ts']);
+  });
+
+  it('selects staged files', async () => {
+    assert.deepEqual(await select({ staged: true }), ['staged.ts']);
+  });
+
+  it('selects tracked files, narrowed by the other modes', async () => {
+    assert.deepEqual(await select({ trackedOnly: true }), ['changed.ts', 'committed.ts', 'deleted.ts', 'staged.ts']);
+    assert.deepEqual(await select({ trackedOnly: true, changedSince: 'HEAD' }), ['changed.ts', 'staged.ts']);
+  });
+
+  it('diffs changed files against the ref, and untracked files as added', async () => {
+    assert.match(await getGitDiff(folder, path.join(folder, 'changed.ts'), { changedSince: 'HEAD' }), /^-a\n\+b$/m);
+    assert.match(await getGitDiff(folder, path.join(folder, 'untracked.ts'), { changedSince: 'HEAD' }), /^\+new$/m);
+    assert.equal(await getGitDiff(folder, path.join(folder, 'changed.ts'), { staged: true }), '');
+  });
+
+  it('reports git errors with the failing command', async () => {
+    await assert.rejects(select({ changedSince: 'no-such-ref' }), /git diff failed/);
+  });
+});
@@ -0,0 +1,60 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { collectFiles } from '../src/files.js';
+import { ArchiveOptions } from '../src/options.js';
+import { createFixture, removeFixtures } from './fixtures.js';
+
+// Function to list the paths of the files that would be archived from a folder
+async function listFiles(options: ArchiveOptions): Promise<string[]> {
+  const files = await collectFiles(options);
+  return files.map(file => file.relativePath.split(path.sep).join('/')).sort();
+}
+
+describe('ignore rules', () => {
+  after(removeFixtures);
+
+  it('applies nested .gitignore files relative to their folders, with deeper files taking precedence', async () => {
+    const source = await createFixture({
+      '.gitignore': '*.log\nbuild/\n',
+      'a.ts': '',
+      'debug.log': '',
+      'build/out.js': '',
+      'pkg/.gitignore': '!keep.log\n/local.ts\n',
+      'pkg/keep.log': '',
+      'pkg/other.log': '',
+      'pkg/local.ts': '',
+      'pkg/sub/local.ts': '',
+    });
+    assert.deepEqual(await listFiles({ source }), ['a.ts', 'pkg/keep.log', 'pkg/sub/local.ts']);
+  });
+
+  it('applies .git/info/exclude and the .gitignore files above the source folder in the repository', async () => {
+    const root = await createFixture({
+      '.git/HEAD': 'ref: refs/heads/main\n',
+      '.git/info/exclude': 'secret.txt\n',
+      '.gitignore': 'app/tmp/\n',
+      'app/a.ts': '',
+      'app/secret.txt': '',
+      'app/tmp/b.ts': '',
+    });
+    assert.deepEqual(await listFiles({ source: path.join(root, 'app') }), ['a.ts']);
+  });
+
+  it('lets .txtzipignore rules override the git rules', async () => {
+    const source = await createFixture({
+      '.gitignore': 'generated/\n',
+      '.txtzipignore': '!generated/\ndocs/\n',
+      'generated/api.ts': '',
+      'docs/guide.txt': '',
+      'a.ts': '',
+    });
+    assert.deepEqual(await listFiles({ source }), ['a.ts', 'generated/api.ts']);
+  });
+
+  it('skips the default ignored files unless they are turned off', async () => {
+    const source = await createFixture({ 'a.ts': '', '.DS_Store': 'x', 'node_modules/x/index.js': '' });
+    assert.deepEqual(await listFiles({ source }), ['a.ts']);
+    assert.deepEqual(await listFiles({ source, defaultIgnores: false }), ['.DS_Store', 'a.ts', 'node_modules/x/index.js']);
+  });
+});
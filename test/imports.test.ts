@@ -0,0 +1,97 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { collectImportClosure, findImportSpecifiers, formatUnresolvedImports } from '../src/imports.js';
+import { createFixture, removeFixtures } from './fixtures.js';
+
+// Function to collect the import closure of entry files, with paths relative to the source folder
+async function collect(folder: string, entries: string[], depth?: number) {
+  const closure = await collectImportClosure(entries.map(entry => path.join(folder, entry)), folder, depth);
+  return { ...closure, files: closure.files.map(file => path.relative(folder, file).split(path.sep).join('/')) };
+}
+
+describe('findImportSpecifiers', () => {
+  it('finds imports, re-exports, dynamic imports and require calls', async () => {
+    const content = [
+      "import a from './a';",
+      "import type { B } from './b';",
+      "export * from './c';",
+      "const d = await import('./d');",
+      "const e = require('e');",
+      "// import f from './f';",
+    ].join('\n');
+    assert.deepEqual(await findImportSpecifiers(content), ['./a', './b', './c', './d', 'e']);
+  });
+});
+
+describe('collectImportClosure', () => {
+  after(removeFixtures);
+
+  it('follows relative imports breadth-first, resolving extensions, .js imports of .ts files and index files', async () => {
+    const folder = await createFixture({
+      'src/main.ts': "import { a } from './a.js';\nimport { util } from './util';\nimport 'react';\n",
+      'src/a.ts': "export { b } from './lib/b';\n",
+      'src/util/index.ts': "export const util = require('./data.json');\n",
+      'src/util/data.json': '{}',
+      'src/lib/b.tsx': "import './missing';\nexport const b = 1;\n",
+      'src/unused.ts': '',
+    });
+    const closure = await collect(folder, ['src/main.ts']);
+    assert.deepEqual(closure.files, ['src/main.ts', 'src/a.ts', 'src/util/index.ts', 'src/lib/b.tsx', 'src/util/data.json']);
+    assert.deepEqual(closure.unresolved, [
+      { relativePath: path.join('src', 'main.ts'), specifier: 'react', kind: 'external' },
+      { relativePath: path.join('src', 'lib', 'b.tsx'), specifier: './missing', kind: 'unresolved' },
+    ]);
+  });
+
+  it('stops at the given depth', async () => {
+    const folder = await createFixture({
+      'a.ts': "import './b';\n",
+      'b.ts': "import './c';\n",
+      'c.ts': '',
+    });
+    assert.deepEqual((await collect(folder, ['a.ts'], 0)).files, ['a.ts']);
+    assert.deepEqual((await collect(folder, ['a.ts'], 1)).files, ['a.ts', 'b.ts']);
+  });
+
+  it('resolves path aliases from tsconfig.json and the configs it extends', async () => {
+    const folder = await createFixture({
+      'tsconfig.base.json': JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '@lib/*': ['lib/*'] } } }),
+      'tsconfig.json': JSON.stringify({ extends: './tsconfig.base.json' }),
+      'src/main.ts': "import { x } from '@lib/x';\nimport { y } from 'src/y';\nimport { z } from '@lib/z';\n",
+      'src/y.ts': '',
+      'lib/x.ts': '',
+    });
+    const closure = await collect(folder, ['src/main.ts']);
+    assert.deepEqual(closure.files, ['src/main.ts', 'lib/x.ts', 'src/y.ts']);
+    assert.deepEqual(closure.unresolved, [{ relativePath: path.join('src', 'main.ts'), specifier: '@lib/z', kind: 'unresolved' }]);
+  });
+
+  it('reports imports of files outside the source folder as unresolved', async () => {
+    const folder = await createFixture({ 'app/main.ts': "import '../shared/a';\n", 'shared/a.ts': '' });
+    const closure = await collectImportClosure([path.join(folder, 'app/main.ts')], path.join(folder, 'app'));
+    assert.deepEqual(closure.unresolved, [{ relativePath: 'main.ts', specifier: '../shared/a', kind: 'unresolved' }]);
+  });
+
+  it('rejects entry files that do not exist', async () => {
+    const folder = await createFixture();
+    await assert.rejects(collectImportClosure([path.join(folder, 'missing.ts')], folder), /Entry file not found/);
+  });
+});
+
+describe('formatUnresolvedImports', () => {
+  it('groups the importing files by specifier', () => {
+    assert.equal(formatUnresolvedImports([
+      { relativePath: 'b.ts', specifier: 'react', kind: 'external' },
+      { relativePath: 'a.ts', specifier: './gone', kind: 'unresolved' },
+      { relativePath: 'c.ts', specifier: 'react', kind: 'external' },
+      { relativePath: 'a.ts', specifier: 'lodash', kind: 'external' },
+    ]), [
+      'External packages:',
+      '  lodash (a.ts)',
+      '  react (b.ts, c.ts)',
+      'Unresolved imports:',
+      '  ./gone (a.ts)',
+    ].join('\n'));
+  });
+});
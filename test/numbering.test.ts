@@ -0,0 +1,70 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createArchive } from '../src/archive.js';
+import { formatFileMeta } from '../src/formats.js';
+import { createFixture, removeFixtures } from './fixtures.js';
+
+// Content of a ten-line file with an empty fifth line
+const tenLines = Array.from({ length: 10 }, (_, i) => (i === 4 ? '' : `l${i + 1}`)).join('\n') + '\n';
+
+describe('line numbers', () => {
+  after(removeFixtures);
+
+  it('aligns the numbers in a gutter, without trailing whitespace on empty lines', async () => {
+    const source = await createFixture({ 'a.ts': tenLines });
+    const { chunks } = await createArchive({ source, lineNumbers: true });
+    assert.match(chunks[0], /```typescript line-numbers\n 1 \| l1\n/);
+    assert.match(chunks[0], /\n 5 \|\n 6 \| l6\n/);
+    assert.match(chunks[0], /\n10 \| l10\n/);
+  });
+
+  it('keeps counting in the chunks a file continues in', async () => {
+    const source = await createFixture({ 'a.ts': tenLines });
+    const { chunks } = await createArchive({ source, lineNumbers: true, chunkSize: 100, partPreambles: false });
+    assert.ok(chunks.length > 1);
+    for (const chunk of chunks.slice(1)) {
+      const match = chunk.match(/## Continuation of File: a\.ts \(lines? (\d+)[^\n]*\n\n```typescript line-numbers\n *(\d+) \|/);
+      assert.ok(match, chunk);
+      assert.equal(match[2], match[1]);
+    }
+    assert.match(chunks[chunks.length - 1], /\n10 \| l10\n/);
+  });
+
+  it('leaves Markdown files included as-is unnumbered in the Markdown format only', async () => {
+    const source = await createFixture({ 'a.md': '# t\n' });
+    const markdown = await createArchive({ source, lineNumbers: true });
+    const xml = await createArchive({ source, lineNumbers: true, format: 'xml' });
+    assert.match(markdown.chunks[0], /## File: a\.md\n\n# t\n/);
+    assert.match(xml.chunks[0], /<document_content>1 \| # t\n<\/document_content>/);
+  });
+});
+
+describe('formatFileMeta', () => {
+  it('formats the size, line count and modification time, and the last commit when there is one', () => {
+    const meta = { size: 12, lines: 3, modified: '2026-10-01T09:30:00Z' };
+    assert.equal(formatFileMeta(meta), '12 bytes, 3 lines, modified 2026-10-01T09:30:00Z');
+    assert.equal(
+      formatFileMeta({ ...meta, commit: { hash: '1a2b3c4d5e6f', author: 'Jane Doe', date: '2026-09-30T17:02:11+02:00' } }),
+      '12 bytes, 3 lines, modified 2026-10-01T09:30:00Z, commit 1a2b3c4 by Jane Doe on 2026-09-30T17:02:11+02:00'
+    );
+  });
+});
+
+describe('file details', () => {
+  after(removeFixtures);
+
+  it('describes the file on disk, before comments are stripped', async () => {
+    const source = await createFixture({ 'a.ts': '// c\nconst a = 1;\n' });
+    const { chunks } = await createArchive({ source, fileMeta: true, stripComments: true });
+    assert.match(chunks[0], /## File: a\.ts \(18 bytes, 2 lines, modified \d{4}-\d\d-\d\dT\d\d:\d\d:\d\dZ\)\n/);
+    assert.match(chunks[0], /```typescript\nconst a = 1;\n/);
+  });
+
+  it('adds the details as attributes in XML and as a meta object in JSON', async () => {
+    const source = await createFixture({ 'a.ts': 'a\n' });
+    const xml = await createArchive({ source, fileMeta: true, format: 'xml' });
+    const json = await createArchive({ source, fileMeta: true, format: 'json' });
+    assert.match(xml.chunks[0], /<document index="1" size="2" line_count="1" modified="[^"]+Z">/);
+    assert.deepEqual(Object.keys(JSON.parse(json.chunks[0])[0].meta), ['size', 'lines', 'modified']);
+  });
+});
@@ -0,0 +1,80 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { createArchive } from '../src/archive.js';
+import { comparePaths, defaultPriority, getPriorityRank, orderFiles, restPlaceholder } from '../src/order.js';
+import { createFixture, removeFixtures } from './fixtures.js';
+
+// Function to get the paths of the files in the order they are listed in an archive chunk
+function listedPaths(chunk: string): string[] {
+  return [...chunk.matchAll(/^## File: (.*)$/gm)].map(match => match[1]);
+}
+
+describe('comparePaths', () => {
+  it('sorts folders before files and names by code unit', () => {
+    const paths = ['b.ts', 'a.ts', 'B.ts', path.join('z', 'a.ts'), path.join('a', 'b', 'c.ts'), path.join('a', 'a.ts')];
+    assert.deepEqual([...paths].sort(comparePaths), [
+      path.join('a', 'b', 'c.ts'),
+      path.join('a', 'a.ts'),
+      path.join('z', 'a.ts'),
+      'B.ts',
+      'a.ts',
+      'b.ts',
+    ]);
+  });
+});
+
+describe('getPriorityRank', () => {
+  it('ranks a path by the first pattern it matches, and other paths at the placeholder', () => {
+    assert.equal(getPriorityRank('README.md', defaultPriority), 0);
+    assert.equal(getPriorityRank(path.join('src', 'index.ts'), defaultPriority), 2);
+    assert.equal(getPriorityRank(path.join('src', 'a.ts'), defaultPriority), defaultPriority.indexOf(restPlaceholder));
+    assert.equal(getPriorityRank(path.join('src', 'a.test.ts'), defaultPriority), defaultPriority.indexOf('**/*.test.*'));
+  });
+
+  it('ranks unmatched paths last without a placeholder', () => {
+    assert.equal(getPriorityRank('a.ts', ['*.md']), 1);
+  });
+});
+
+describe('orderFiles', () => {
+  it('orders by size and modification time, breaking ties by path', async () => {
+    const files = ['/s/b.ts', '/s/a.ts', '/s/c.ts'];
+    const stats: { [file: string]: { size: number; mtimeMs: number } } = {
+      '/s/a.ts': { size: 2, mtimeMs: 1 },
+      '/s/b.ts': { size: 2, mtimeMs: 3 },
+      '/s/c.ts': { size: 1, mtimeMs: 1 },
+    };
+    const statFile = async (file: string) => stats[file];
+    assert.deepEqual(await orderFiles(files, '/s', 'size', [], statFile), ['/s/c.ts', '/s/a.ts', '/s/b.ts']);
+    assert.deepEqual(await orderFiles(files, '/s', 'mtime', [], statFile), ['/s/b.ts', '/s/a.ts', '/s/c.ts']);
+    assert.deepEqual(await orderFiles(files, '/s', 'path', [], statFile), ['/s/a.ts', '/s/b.ts', '/s/c.ts']);
+  });
+});
+
+describe('file order in archives', () => {
+  after(removeFixtures);
+
+  it('lists the files in the same order in the tree, the content and across chunks', async () => {
+    const source = await createFixture({
+      'a.ts': 'a\n',
+      'B.ts': 'b\n',
+      'README.md': 'r\n',
+      'src/a.ts': 'a\n',
+      'test/a.test.ts': 't\n',
+    });
+    const { chunks, manifest } = await createArchive({
+      source,
+      order: 'priority',
+      prefixTree: true,
+      chunkSize: 120,
+      partPreambles: false,
+    });
+    const expected = ['README.md', 'src/a.ts', 'B.ts', 'a.ts', 'test/a.test.ts'];
+
+    assert.deepEqual(manifest.map(entry => entry.path.split(path.sep).join('/')), expected);
+    assert.match(chunks[0], /├── README\.md\n├── src\/\n│   └── a\.ts\n├── B\.ts\n├── a\.ts\n└── test\/\n/);
+    assert.ok(chunks.length > 2);
+    assert.deepEqual(chunks.flatMap(listedPaths), expected);
+  });
+});
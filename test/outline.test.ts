@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { outlineSource, shouldOutline } from '../src/outline.js';
+
+describe('shouldOutline', () => {
+  it('outlines every script file when enabled, and nothing else', () => {
+    assert.equal(shouldOutline('a.ts', true), true);
+    assert.equal(shouldOutline('A.MJS', true), true);
+    assert.equal(shouldOutline('a.py', true), false);
+    assert.equal(shouldOutline('a.ts', false), false);
+  });
+
+  it('matches patterns without a slash against the file name and others against the whole path', () => {
+    const file = path.join('src', 'lib', 'a.ts');
+    assert.equal(shouldOutline(file, ['*.ts']), true);
+    assert.equal(shouldOutline(file, ['src/*.ts']), false);
+    assert.equal(shouldOutline(file, ['src/**']), true);
+    assert.equal(shouldOutline(path.join('src', 'a.md'), ['src/**']), false);
+  });
+});
+
+describe('outlineSource', () => {
+  it('elides function and method bodies, keeping JSDoc comments and signatures', async () => {
+    const content = [
+      'import { b } from \'./b\';',
+      '/** Adds numbers. */',
+      'export function add(x: number, y: number): number {',
+      '  return x + y;',
+      '}',
+      'export class A {',
+      '  get value(): number { return 1; }',
+      '  run(): void { b(); }',
+      '}',
+      '',
+    ].join('\n');
+    assert.equal(await outlineSource('a.ts', content), [
+      'import { b } from \'./b\';',
+      '/** Adds numbers. */',
+      'export function add(x: number, y: number): number { ... }',
+      'export class A {',
+      '  get value(): number { ... }',
+      '  run(): void { ... }',
+      '}',
+      '',
+    ].join('\n'));
+  });
+
+  it('leaves out top-level statements that are not declarations, keeping CommonJS exports', async () => {
+    const content = 'const a = () => {\n  return 1;\n};\n// run it\nmain();\nmodule.exports = { a };\n';
+    assert.equal(await outlineSource('a.js', content), 'const a = () => { ... };\nmodule.exports = { a };\n');
+  });
+
+  it('outlines the statements of nested namespaces', async () => {
+    const content = 'namespace A.B {\n  export function f() { return 1; }\n  f();\n}\n';
+    assert.equal(await outlineSource('a.ts', content), 'namespace A.B {\n  export function f() { ... }\n}\n');
+  });
+
+  it('returns null for files with syntax errors', async () => {
+    assert.equal(await outlineSource('a.ts', 'function f( {\n'), null);
+    assert.equal(await outlineSource('a.js', 'const x: number = 1;\n'), null);
+  });
+});
@@ -0,0 +1,56 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'child_process';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { promisify } from 'util';
+import { createArchive } from '../src/archive.js';
+import { readFileList } from '../src/files.js';
+import { createFixture, removeFixtures } from './fixtures.js';
+
+const execFileAsync = promisify(execFile);
+
+const cliPath = fileURLToPath(new URL('../src/cli.ts', import.meta.url));
+
+describe('readFileList', () => {
+  after(removeFixtures);
+
+  it('reads newline- and NUL-separated lists, dropping duplicates', async () => {
+    const source = await createFixture({ 'a.ts': '', 'b.ts': '' });
+    const a = path.join(source, 'a.ts');
+    const b = path.join(source, 'b.ts');
+    const folder = await createFixture({ 'lines.txt': `${a}\r\n${b}\n${a}\n\n`, 'nul.txt': `${b}\0${a}\0` });
+    assert.deepEqual(await readFileList(path.join(folder, 'lines.txt'), source), [a, b]);
+    assert.deepEqual(await readFileList(path.join(folder, 'nul.txt'), source), [b, a]);
+  });
+
+  it('rejects files that are outside the source folders or missing', async () => {
+    const source = await createFixture({ 'a.ts': '' });
+    const other = await createFixture({ 'b.ts': '' });
+    const folder = await createFixture({
+      'outside.txt': path.join(other, 'b.ts'),
+      'missing.txt': path.join(source, 'gone.ts'),
+    });
+    await assert.rejects(readFileList(path.join(folder, 'outside.txt'), source), /Listed file is outside the source folder/);
+    await assert.rejects(readFileList(path.join(folder, 'missing.txt'), source), /Listed file not found/);
+  });
+
+  it('archives only the listed files', async () => {
+    const source = await createFixture({ 'a.ts': 'a\n', 'b.ts': 'b\n', 'c.ts': 'c\n' });
+    const folder = await createFixture({ 'list.txt': [path.join(source, 'c.ts'), path.join(source, 'a.ts')].join('\n') });
+    const { manifest } = await createArchive({ source, filesFrom: path.join(folder, 'list.txt') });
+    assert.deepEqual(manifest.map(entry => entry.path), ['a.ts', 'c.ts']);
+  });
+});
+
+describe('stdout output', () => {
+  after(removeFixtures);
+
+  it('writes the archive to stdout and the summary to stderr', async () => {
+    const source = await createFixture({ 'a.ts': 'const a = 1;\n' });
+    const { stdout, stderr } = await execFileAsync(process.execPath, ['--import', 'tsx', cliPath, '-s', source, '-o', '-']);
+    assert.match(stdout, /^## File: a\.ts\n\n```typescript\nconst a = 1;\n/m);
+    assert.match(stderr, /archive created successfully/);
+    assert.doesNotMatch(stdout, /archive created successfully/);
+  });
+});
@@ -0,0 +1,104 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { createArchive } from '../src/archive.js';
+import { findWorkspacePackages, parseSourceRoot, resolveSourceRoots } from '../src/roots.js';
+import { createFixture, removeFixtures } from './fixtures.js';
+
+describe('parseSourceRoot', () => {
+  it('splits a label from the path at the first equals sign', () => {
+    assert.deepEqual(parseSourceRoot('web=apps/web'), { label: 'web', path: 'apps/web' });
+    assert.deepEqual(parseSourceRoot('a=b=c'), { label: 'a', path: 'b=c' });
+    assert.deepEqual(parseSourceRoot('apps/web'), { path: 'apps/web' });
+    assert.deepEqual(parseSourceRoot('=apps/web'), { path: '=apps/web' });
+  });
+});
+
+describe('findWorkspacePackages', () => {
+  after(removeFixtures);
+
+  it('reads npm workspaces, skipping excluded folders and folders without a package.json', async () => {
+    const folder = await createFixture({
+      'package.json': JSON.stringify({ workspaces: ['packages/*', '!packages/old'] }),
+      'packages/a/package.json': '{}',
+      'packages/b/package.json': '{}',
+      'packages/old/package.json': '{}',
+      'packages/docs/README.md': '',
+    });
+    assert.deepEqual(findWorkspacePackages(folder), [path.join(folder, 'packages', 'a'), path.join(folder, 'packages', 'b')]);
+  });
+
+  it('reads yarn workspaces written as an object with packages', async () => {
+    const folder = await createFixture({
+      'package.json': JSON.stringify({ workspaces: { packages: ['apps/*'], nohoist: ['**/x'] } }),
+      'apps/web/package.json': '{}',
+    });
+    assert.deepEqual(findWorkspacePackages(folder), [path.join(folder, 'apps', 'web')]);
+  });
+
+  it('reads pnpm-workspace.yaml as a block or a flow sequence', async () => {
+    const block = await createFixture({
+      'pnpm-workspace.yaml': 'packages:\n  - "apps/*" # apps\n  - \'libs/**\'\ncatalog:\n  - x\n',
+      'apps/web/package.json': '{}',
+      'libs/ui/core/package.json': '{}',
+    });
+    assert.deepEqual(findWorkspacePackages(block), [path.join(block, 'apps', 'web'), path.join(block, 'libs', 'ui', 'core')]);
+
+    const flow = await createFixture({ 'pnpm-workspace.yaml': "packages: ['apps/*']\n", 'apps/web/package.json': '{}' });
+    assert.deepEqual(findWorkspacePackages(flow), [path.join(flow, 'apps', 'web')]);
+  });
+
+  it('throws when there are no workspaces or no packages', async () => {
+    const empty = await createFixture({ 'package.json': '{}' });
+    assert.throws(() => findWorkspacePackages(empty), /No workspaces found/);
+    const folder = await createFixture({ 'package.json': JSON.stringify({ workspaces: ['packages/*'] }) });
+    assert.throws(() => findWorkspacePackages(folder), /No workspace packages found/);
+  });
+});
+
+describe('resolveSourceRoots', () => {
+  after(removeFixtures);
+
+  it('keeps a single unlabeled folder without a label', () => {
+    assert.deepEqual(resolveSourceRoots('src'), [{ path: path.resolve('src'), label: '' }]);
+  });
+
+  it('labels several folders with their paths relative to their common folder', () => {
+    assert.deepEqual(resolveSourceRoots(['/x/apps/web', { path: '/x/libs/ui', label: 'ui' }]), [
+      { path: path.resolve('/x/apps/web'), label: path.join('apps', 'web') },
+      { path: path.resolve('/x/libs/ui'), label: 'ui' },
+    ]);
+  });
+
+  it('rejects nested folders and labels', () => {
+    assert.throws(() => resolveSourceRoots(['/x/a', '/x/a/b']), /Source folders cannot be nested/);
+    assert.throws(
+      () => resolveSourceRoots([{ path: '/x/a', label: 'web' }, { path: '/x/b', label: 'web/b' }]),
+      /Source labels must be distinct and not nested/
+    );
+    assert.throws(() => resolveSourceRoots([{ path: '/x/a', label: '../a' }, '/x/b']), /Invalid source label/);
+  });
+
+  it('labels workspace packages with their path in the monorepo', async () => {
+    const folder = await createFixture({
+      'package.json': JSON.stringify({ workspaces: ['packages/*'] }),
+      'packages/a/package.json': '{}',
+    });
+    assert.deepEqual(resolveSourceRoots(folder, true), [
+      { path: path.join(folder, 'packages', 'a'), label: path.join('packages', 'a') },
+    ]);
+  });
+});
+
+describe('archives of several source folders', () => {
+  after(removeFixtures);
+
+  it('groups the files of each folder under its label', async () => {
+    const web = await createFixture({ 'index.ts': 'web\n' });
+    const api = await createFixture({ 'index.ts': 'api\n' });
+    const { manifest, chunks } = await createArchive({ source: [{ path: web, label: 'web' }, { path: api, label: 'api' }] });
+    assert.deepEqual(manifest.map(entry => entry.path).sort(), [path.join('api', 'index.ts'), path.join('web', 'index.ts')]);
+    assert.match(chunks[0], /## File: web\/index\.ts\n\n```typescript\nweb\n/);
+    assert.match(chunks[0], /## File: api\/index\.ts\n\n```typescript\napi\n/);
+  });
+});
@@ -0,0 +1,109 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { ArchiveFile } from '../src/files.js';
+import { ManifestEntry, createArchive } from '../src/archive.js';
+import {
+  Snapshot,
+  createSnapshot,
+  diffSnapshot,
+  formatSnapshotChanges,
+  getContentHash,
+  getContentHashes,
+  getManifestPath,
+  readSnapshot,
+  snapshotVersion,
+} from '../src/snapshot.js';
+import { createFixture, removeFixtures } from './fixtures.js';
+
+// Function to create archive files from their contents by path
+function toFiles(contents: { [relativePath: string]: string }): ArchiveFile[] {
+  return Object.entries(contents).map(([relativePath, content]) => ({ path: `/src/${relativePath}`, relativePath, content }));
+}
+
+// Function to create a manifest of files sent in an earlier archive
+function toSnapshot(contents: { [relativePath: string]: string }): Snapshot {
+  return {
+    version: snapshotVersion,
+    files: Object.entries(contents).map(([relativePath, content]) => ({
+      path: relativePath,
+      size: Buffer.byteLength(content, 'utf8'),
+      hash: getContentHash(content),
+      chunks: [1],
+    })),
+  };
+}
+
+describe('diffSnapshot', () => {
+  it('keeps only the added and modified files, and reports deleted and renamed ones', () => {
+    const previous = toSnapshot({ 'same.ts': 'same', 'changed.ts': 'old', 'gone.ts': 'gone', 'old-name.ts': 'moved' });
+    const files = toFiles({ 'same.ts': 'same', 'changed.ts': 'new', 'added.ts': 'added', 'new-name.ts': 'moved' });
+    const { files: changedFiles, changes } = diffSnapshot(files, previous, getContentHashes(files));
+
+    assert.deepEqual(changedFiles.map(file => file.relativePath), ['changed.ts', 'added.ts']);
+    assert.deepEqual(changes, {
+      added: ['added.ts'],
+      modified: ['changed.ts'],
+      deleted: ['gone.ts'],
+      renamed: [{ from: 'old-name.ts', to: 'new-name.ts' }],
+      unchanged: ['same.ts'],
+    });
+    assert.equal(formatSnapshotChanges(changes), 'Deleted:\n  gone.ts\nRenamed:\n  old-name.ts -> new-name.ts');
+  });
+
+  it('matches each deleted file to one added file with its content', () => {
+    const previous = toSnapshot({ 'a.ts': 'same' });
+    const files = toFiles({ 'b.ts': 'same', 'c.ts': 'same' });
+    const { changes } = diffSnapshot(files, previous, getContentHashes(files));
+    assert.deepEqual(changes.renamed, [{ from: 'a.ts', to: 'b.ts' }]);
+    assert.deepEqual(changes.added, ['c.ts']);
+  });
+});
+
+describe('createSnapshot', () => {
+  it('records sent and unchanged files, and keeps the earlier entries of dropped files', () => {
+    const previous = toSnapshot({ 'same.ts': 'same', 'dropped.ts': 'old' });
+    const files = toFiles({ 'same.ts': 'same', 'sent.ts': 'sent', 'dropped.ts': 'new' });
+    const hashes = getContentHashes(files);
+    const { changes } = diffSnapshot(files, previous, hashes);
+    const manifest: ManifestEntry[] = [{ path: 'sent.ts', size: 4, lines: 1, tokens: 1, chunks: [2] }];
+    const snapshot = createSnapshot(files, manifest, hashes, previous, changes);
+
+    assert.deepEqual(snapshot, {
+      version: snapshotVersion,
+      files: [
+        { path: 'same.ts', size: 4, hash: getContentHash('same'), chunks: [] },
+        { path: 'sent.ts', size: 4, hash: getContentHash('sent'), chunks: [2] },
+        // Dropped files keep their old hash, so the next delta archive sends them again
+        { path: 'dropped.ts', size: 3, hash: getContentHash('old'), chunks: [] },
+      ],
+    });
+  });
+});
+
+describe('readSnapshot', () => {
+  after(removeFixtures);
+
+  it('reads a manifest written with an archive', async () => {
+    const source = await createFixture({ 'a.txt': 'a\n', 'b.txt': 'b\n' });
+    const { snapshot } = await createArchive({ source, manifest: true, output: path.join(source, 'out.md') });
+    assert.deepEqual(snapshot?.files.map(entry => entry.path), ['a.txt', 'b.txt']);
+    const folder = await createFixture({ 'out.manifest.json': JSON.stringify(snapshot) });
+    assert.deepEqual(readSnapshot(getManifestPath(path.join(folder, 'out.md'))), snapshot);
+  });
+
+  it('rejects manifests with missing or invalid entries', async () => {
+    const entry = { path: 'a.txt', size: 2, hash: getContentHash('a\n'), chunks: [1] };
+    const folder = await createFixture({
+      'version.json': JSON.stringify({ version: 2, files: [] }),
+      'hash.json': JSON.stringify({ version: snapshotVersion, files: [{ ...entry, hash: 'abc' }] }),
+      'size.json': JSON.stringify({ version: snapshotVersion, files: [entry, { ...entry, size: -1 }] }),
+      'invalid.json': '{',
+    });
+    const read = (name: string) => () => readSnapshot(path.join(folder, name));
+    assert.throws(read('version.json'), /expected a version 1 manifest written by txtzip/);
+    assert.throws(read('hash.json'), /files\[0\] \(a\.txt\) needs a SHA-256 hash/);
+    assert.throws(read('size.json'), /files\[1\] \(a\.txt\) needs a size in bytes/);
+    assert.throws(read('invalid.json'), /Failed to read manifest/);
+  });
+});
@@ -0,0 +1,58 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'child_process';
+import { readdir } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { promisify } from 'util';
+import { createArchive } from '../src/archive.js';
+import { getArchiveStats } from '../src/stats.js';
+import { createFixture, removeFixtures } from './fixtures.js';
+
+const execFileAsync = promisify(execFile);
+
+const cliPath = fileURLToPath(new URL('../src/cli.ts', import.meta.url));
+
+describe('getArchiveStats', () => {
+  after(removeFixtures);
+
+  it('totals the included files per folder, counting subfolders in their parents', async () => {
+    const source = await createFixture({ 'a.txt': 'a\n', 'src/b.txt': 'bb\nbb\n', 'src/lib/c.txt': 'ccc\n' });
+    const result = await createArchive({ source });
+    const stats = getArchiveStats(result, ['out.md']);
+
+    const files = [...stats.files].sort((a, b) => a.path.localeCompare(b.path));
+    assert.deepEqual(files.map(file => [file.path, file.size, file.lines]), [
+      ['a.txt', 2, 1],
+      [path.join('src', 'b.txt'), 6, 2],
+      [path.join('src', 'lib', 'c.txt'), 4, 1],
+    ]);
+    assert.deepEqual(stats.directories.map(dir => [dir.path, dir.files, dir.size, dir.lines]), [
+      ['src', 2, 10, 3],
+      ['src/lib', 1, 4, 1],
+    ]);
+    assert.deepEqual([stats.totals.files, stats.totals.size, stats.totals.lines], [3, 12, 4]);
+    assert.equal(stats.totals.tokens, stats.files.reduce((sum, file) => sum + file.tokens, 0));
+    assert.deepEqual(stats.largest.map(file => file.size), [6, 4, 2]);
+    assert.equal(stats.chunkCount, 1);
+    assert.deepEqual(stats.outputFiles, ['out.md']);
+  });
+});
+
+describe('dry runs', () => {
+  after(removeFixtures);
+
+  it('prints a JSON report without writing the archive', async () => {
+    const source = await createFixture({ 'a.txt': 'a\n', 'b.png': 'x' });
+    const folder = await createFixture();
+    const { stdout } = await execFileAsync(process.execPath, [
+      '--import', 'tsx', cliPath, '-s', source, '-o', path.join(folder, 'out.md'), '--dry-run', '--report', 'json',
+    ]);
+    const stats = JSON.parse(stdout);
+
+    assert.deepEqual(stats.files.map((file: { path: string }) => file.path), ['a.txt']);
+    assert.deepEqual(stats.outputFiles, [path.join(folder, 'out.md')]);
+    assert.equal(stats.skipped[0].relativePath, 'b.png');
+    assert.deepEqual(await readdir(folder), []);
+  });
+});
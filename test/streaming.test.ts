@@ -0,0 +1,70 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { createArchive, streamArchive } from '../src/archive.js';
+import { mapConcurrently } from '../src/concurrency.js';
+import { createFixture, removeFixtures } from './fixtures.js';
+
+// Function to wait for the given number of milliseconds
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('mapConcurrently', () => {
+  it('keeps the results in the order of the items and runs at most limit calls at a time', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const results = await mapConcurrently([30, 10, 20, 0, 5], 2, async (ms, index) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await delay(ms);
+      running--;
+      return `${index}:${ms}`;
+    });
+    assert.deepEqual(results, ['0:30', '1:10', '2:20', '3:0', '4:5']);
+    assert.equal(maxRunning, 2);
+  });
+
+  it('rejects with the first error and starts no further calls', async () => {
+    const started: number[] = [];
+    const run = mapConcurrently([0, 1, 2, 3], 1, async item => {
+      started.push(item);
+      if (item === 1) {
+        throw new Error('failed at 1');
+      }
+      return item;
+    });
+    await assert.rejects(run, /failed at 1/);
+    assert.deepEqual(started, [0, 1]);
+  });
+
+  it('handles an empty list', async () => {
+    assert.deepEqual(await mapConcurrently([], 4, async item => item), []);
+  });
+});
+
+describe('streamArchive', () => {
+  after(removeFixtures);
+
+  it('writes the same chunks as createArchive, with their sizes', async () => {
+    const files: { [relativePath: string]: string } = {};
+    for (let i = 0; i < 20; i++) {
+      files[`src/file${i}.ts`] = `export const value${i} = ${i};\n`.repeat(i + 1);
+    }
+    const source = await createFixture(files);
+    const folder = await createFixture();
+    const options = { source, chunkSize: 1000, concurrency: 3 };
+
+    const created = await createArchive(options);
+    const { result, outputFilePaths } = await streamArchive({ ...options, output: path.join(folder, 'out.md') });
+
+    assert.ok(created.chunks.length > 1);
+    assert.equal(outputFilePaths.length, created.chunks.length);
+    for (const [i, outputFilePath] of outputFilePaths.entries()) {
+      assert.equal(await readFile(outputFilePath, 'utf8'), created.chunks[i]);
+    }
+    assert.deepEqual(result.chunkSizes, created.chunkSizes);
+    assert.deepEqual(result.manifest, created.manifest);
+  });
+});
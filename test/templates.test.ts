@@ -0,0 +1,74 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createArchive } from '../src/archive.js';
+import { instructionsEnd, instructionsStart } from '../src/formats.js';
+import { getDefaultProjectName, renderTemplate, validateTemplate } from '../src/templates.js';
+import { createFixture, removeFixtures } from './fixtures.js';
+
+// Values of the template variables for a three-part archive
+const variables = { fileCount: 2, totalSize: 42, part: 1, partCount: 3, tree: 'a.ts', projectName: 'demo' };
+
+describe('templates', () => {
+  it('fills in the variables, allowing spaces inside the braces', () => {
+    const template = '{{projectName}}: {{ part }}/{{partCount}}, {{fileCount}} files';
+    assert.equal(renderTemplate(template, variables), 'demo: 1/3, 2 files');
+  });
+
+  it('rejects unknown variables, listing the available ones', () => {
+    assert.doesNotThrow(() => validateTemplate('{{ tree }} {{totalSize}}', 'header'));
+    assert.throws(
+      () => validateTemplate('{{files}}', 'footer'),
+      /Unknown variable \{\{files\}\} in the footer template; available variables: fileCount,/
+    );
+  });
+
+  it('names the project after the source folder or archive', () => {
+    assert.equal(getDefaultProjectName('/work/demo'), 'demo');
+    assert.equal(getDefaultProjectName('/work/demo.tar.gz'), 'demo');
+  });
+});
+
+describe('archive instructions', () => {
+  after(removeFixtures);
+
+  it('renders the header and footer templates at the start and end of the archive', async () => {
+    const source = await createFixture({ 'a.ts': 'a\n', 'b.ts': 'bb\n' });
+    const { chunks } = await createArchive({
+      source,
+      projectName: 'demo',
+      headerTemplate: '# {{projectName}}: {{fileCount}} files, {{totalSize}} bytes\n',
+      footerTemplate: 'End of part {{part}} of {{partCount}}',
+    });
+    assert.ok(chunks[0].startsWith(`${instructionsStart}\n# demo: 2 files, 5 bytes\n${instructionsEnd}\n\n## File: a.ts`));
+    assert.ok(chunks[0].endsWith(`\n${instructionsStart}\nEnd of part 1 of 1\n${instructionsEnd}\n`));
+  });
+
+  it('rejects templates with unknown variables', async () => {
+    const source = await createFixture();
+    await assert.rejects(createArchive({ source, headerTemplate: '{{name}}' }), /Unknown variable \{\{name\}\}/);
+  });
+
+  it('starts every part with a preamble and ends the last one with the final instruction', async () => {
+    const source = await createFixture({ 'a.ts': 'a\n'.repeat(40), 'b.ts': 'b\n'.repeat(40) });
+    const chunkSize = 400;
+    const { chunks, chunkSizes } = await createArchive({ source, projectName: 'demo', chunkSize });
+
+    assert.ok(chunks.length > 1);
+    assert.ok(chunkSizes.every(size => size <= chunkSize));
+    const count = chunks.length;
+    for (const [i, chunk] of chunks.slice(0, -1).entries()) {
+      assert.ok(chunk.startsWith(`${instructionsStart}\nThis is part ${i + 1} of ${count} of demo. Wait`));
+      assert.doesNotMatch(chunk, /have now been sent/);
+    }
+    const last = chunks[count - 1];
+    assert.ok(last.startsWith(`${instructionsStart}\nThis is part ${count} of ${count} of demo, the last part.`));
+    assert.match(last, new RegExp(`All ${count} parts of demo have now been sent\\. .*\\n${instructionsEnd}\\n$`));
+  });
+
+  it('leaves out the part preambles when asked to', async () => {
+    const source = await createFixture({ 'a.ts': 'a\n'.repeat(40), 'b.ts': 'b\n'.repeat(40) });
+    const { chunks } = await createArchive({ source, chunkSize: 150, partPreambles: false });
+    assert.ok(chunks.length > 1);
+    assert.ok(chunks.every(chunk => !chunk.includes('txtzip:instructions')));
+  });
+});
@@ -0,0 +1,214 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import zlib from 'zlib';
+import { createArchive } from '../src/archive.js';
+import { getSourceArchiveText, isSourceArchive, readSourceArchive } from '../src/unpack.js';
+import { createFixture, removeFixtures } from './fixtures.js';
+
+// An entry of a zip or tar file built by the tests
+interface TestEntry {
+  name: string;
+  data: string;
+  // Zip: store the data instead of deflating it
+  stored?: boolean;
+  // Zip: general purpose flags, e.g., 0x1 for an encrypted entry
+  flags?: number;
+  // Zip: write a wrong checksum
+  badChecksum?: boolean;
+  // Tar: type flag of the header (defaults to a regular file)
+  type?: string;
+}
+
+// Function to compute the CRC-32 checksum of a buffer, as stored in zip files
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) {
+      crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Function to build a zip file with a local header and a central directory record for each entry
+function createZip(entries: TestEntry[]): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const data = Buffer.from(entry.data, 'utf8');
+    const compressed = entry.stored ? data : zlib.deflateRawSync(data);
+    const checksum = entry.badChecksum ? crc32(data) ^ 1 : crc32(data);
+    // 2024-05-06 12:30:00 in MS-DOS format
+    const [time, date] = [(12 << 11) | (30 << 5), ((2024 - 1980) << 9) | (5 << 5) | 6];
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(entry.flags ?? 0, 6);
+    local.writeUInt16LE(entry.stored ? 0 : 8, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(checksum >>> 0, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE((entry.flags ?? 0) | 0x800, 8);
+    central.writeUInt16LE(entry.stored ? 0 : 8, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(checksum >>> 0, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+// Function to build a tar header block for an entry
+function createTarHeader(name: string, size: number, type: string): Buffer {
+  const header = Buffer.alloc(512);
+  const writeField = (value: string, offset: number) => header.write(value, offset, 'utf8');
+  // Names longer than the name field are split into the ustar prefix and name
+  const split = name.length > 100 ? name.lastIndexOf('/', name.length - 1) : -1;
+  writeField(split === -1 ? name.slice(0, 100) : name.slice(split + 1), 0);
+  writeField('0000644\0', 100);
+  writeField(size.toString(8).padStart(11, '0') + '\0', 124);
+  writeField((1715000000).toString(8).padStart(11, '0') + '\0', 136);
+  writeField(type, 156);
+  writeField('ustar\0' + '00', 257);
+  if (split !== -1) {
+    writeField(name.slice(0, split), 345);
+  }
+  header.fill(0x20, 148, 156);
+  const sum = header.reduce((total, byte) => total + byte, 0);
+  writeField(sum.toString(8).padStart(6, '0') + '\0 ', 148);
+  return header;
+}
+
+// Function to build a tar file, padding each entry to whole blocks
+function createTar(entries: TestEntry[]): Buffer {
+  const blocks: Buffer[] = [];
+  for (const entry of entries) {
+    const data = Buffer.from(entry.data, 'utf8');
+    blocks.push(createTarHeader(entry.name, data.length, entry.type ?? '0'), data);
+    blocks.push(Buffer.alloc((512 - (data.length % 512)) % 512));
+  }
+  return Buffer.concat([...blocks, Buffer.alloc(1024)]);
+}
+
+// Function to read the entries of a source archive as text or errors by name
+async function readEntries(archivePath: string): Promise<{ [name: string]: string }> {
+  const sourceArchive = await readSourceArchive(archivePath);
+  return Object.fromEntries([...sourceArchive.entries.values()].map(entry => [
+    entry.name,
+    entry.error ? `error: ${entry.error}` : entry.data.toString('utf8'),
+  ]));
+}
+
+describe('readSourceArchive', () => {
+  after(removeFixtures);
+
+  it('reads stored and deflated zip entries', async () => {
+    const folder = await createFixture({
+      'source.zip': createZip([
+        { name: 'src/', data: '' },
+        { name: 'src/index.ts', data: 'export const a = 1;\n' },
+        { name: 'README.md', data: '# Readme\n', stored: true },
+      ]),
+    });
+    const archivePath = path.join(folder, 'source.zip');
+    assert.ok(isSourceArchive(archivePath));
+    assert.deepEqual(await readEntries(archivePath), {
+      'src/index.ts': 'export const a = 1;\n',
+      'README.md': '# Readme\n',
+    });
+
+    const sourceArchive = await readSourceArchive(archivePath);
+    assert.equal(getSourceArchiveText(sourceArchive, path.join(archivePath, 'src', 'index.ts')), 'export const a = 1;\n');
+    assert.equal(sourceArchive.entries.get(path.join(archivePath, 'README.md'))?.modified.getFullYear(), 2024);
+  });
+
+  it('reports encrypted and corrupt zip entries and skips paths outside the archive', async () => {
+    const folder = await createFixture({
+      'source.zip': createZip([
+        { name: 'ok.txt', data: 'ok\n' },
+        { name: 'secret.txt', data: 'hidden\n', flags: 0x1 },
+        { name: 'broken.txt', data: 'broken\n', badChecksum: true },
+        { name: '../evil.txt', data: 'evil\n' },
+      ]),
+    });
+    assert.deepEqual(await readEntries(path.join(folder, 'source.zip')), {
+      'ok.txt': 'ok\n',
+      'secret.txt': 'error: encrypted entry',
+      'broken.txt': 'error: corrupt entry: checksum mismatch',
+    });
+  });
+
+  it('reads tar files with ustar prefixes and GNU long names', async () => {
+    const longName = `src/${'nested/'.repeat(20)}file.ts`;
+    const folder = await createFixture({
+      'source.tar': createTar([
+        { name: 'src/', data: '', type: '5' },
+        { name: 'src/a.ts', data: 'a\n' },
+        { name: longName, data: 'prefixed\n' },
+        { name: '././@LongLink', data: `src/${'long-'.repeat(30)}name.ts\0`, type: 'L' },
+        { name: 'src/truncated-name.ts', data: 'long\n' },
+      ]),
+    });
+    assert.deepEqual(await readEntries(path.join(folder, 'source.tar')), {
+      'src/a.ts': 'a\n',
+      [longName]: 'prefixed\n',
+      [`src/${'long-'.repeat(30)}name.ts`]: 'long\n',
+    });
+  });
+
+  it('keeps the readable entries of a truncated .tar.gz file', async () => {
+    const tar = createTar([{ name: 'a.txt', data: 'a\n' }, { name: 'b.txt', data: 'b'.repeat(2000) }]);
+    const folder = await createFixture({ 'source.tar.gz': zlib.gzipSync(tar.subarray(0, 1536)) });
+    assert.deepEqual(await readEntries(path.join(folder, 'source.tar.gz')), {
+      'a.txt': 'a\n',
+      'b.txt': 'error: corrupt entry: truncated data',
+    });
+  });
+
+  it('fails on files that are not archives', async () => {
+    const folder = await createFixture({ 'source.zip': 'not a zip file' });
+    await assert.rejects(readSourceArchive(path.join(folder, 'source.zip')), /Failed to read source archive .*Not a zip archive/);
+  });
+});
+
+describe('createArchive with a source archive', () => {
+  after(removeFixtures);
+
+  it('archives the files inside the zip file by their paths in it', async () => {
+    const folder = await createFixture({
+      'source.zip': createZip([{ name: 'src/index.ts', data: 'export const a = 1;\n' }]),
+    });
+    const { chunks, manifest } = await createArchive({ source: path.join(folder, 'source.zip') });
+    assert.deepEqual(manifest.map(entry => entry.path), [path.join('src', 'index.ts')]);
+    assert.match(chunks[0], /## File: src\/index\.ts\n\n```typescript\nexport const a = 1;\n/);
+  });
+});
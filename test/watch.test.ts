@@ -0,0 +1,28 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { WatchBuild, watchArchive } from '../src/watch.js';
+import { createFixture, removeFixtures } from './fixtures.js';
+
+describe('watchArchive', () => {
+  after(removeFixtures);
+
+  it('writes the archive on start and leaves other files in the output folder alone', async () => {
+    const source = await createFixture({ 'a.txt': 'a\n' });
+    const folder = await createFixture({ 'out.2024.md': 'unrelated\n', 'out.07.md': 'from an earlier run\n' });
+    const builds: WatchBuild[] = [];
+    const watcher = await watchArchive({ source, output: path.join(folder, 'out.md') }, { onBuild: build => builds.push(build) });
+    watcher.close();
+
+    assert.deepEqual(builds.map(build => build.outputFilePaths), [[path.join(folder, 'out.md')]]);
+    assert.match(await readFile(path.join(folder, 'out.md'), 'utf8'), /## File: a\.txt/);
+    assert.ok(existsSync(path.join(folder, 'out.2024.md')));
+    assert.ok(existsSync(path.join(folder, 'out.07.md')));
+  });
+
+  it('rejects stdout as the output', async () => {
+    await assert.rejects(watchArchive({ source: await createFixture(), output: '-' }), /cannot write the archive to stdout/);
+  });
+});